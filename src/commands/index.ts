@@ -10,6 +10,9 @@ interface IWordCountPlugin extends Plugin {
 	resetData(): Promise<void>;
 	testWordCountAccuracy(): Promise<void>;
 	exportData(): Promise<void>;
+	exportTable(): void;
+	importData(): void;
+	restoreFromBackup(): Promise<void>;
 }
 
 /**
@@ -41,8 +44,28 @@ export function registerCommands(plugin: IWordCountPlugin): void {
 	// 导出数据命令
 	plugin.addCommand({
 		id: 'export-word-count-data',
-		name: '导出统计数据',
+		name: '导出本设备的完整备份（可导入）',
 		callback: () => plugin.exportData()
 	});
-}
 
+	// 导出统计表格命令
+	plugin.addCommand({
+		id: 'export-word-count-table',
+		name: '导出统计表格',
+		callback: () => plugin.exportTable()
+	});
+
+	// 导入数据命令
+	plugin.addCommand({
+		id: 'import-word-count-data',
+		name: '导入统计数据',
+		callback: () => plugin.importData()
+	});
+
+	// 从备份恢复命令
+	plugin.addCommand({
+		id: 'restore-word-count-backup',
+		name: '从备份恢复统计数据',
+		callback: () => plugin.restoreFromBackup()
+	});
+}
@@ -2,12 +2,12 @@
  * 字数统计插件主文件
  */
 
-import { App, Plugin, Notice, TFile } from 'obsidian';
-import { WordCountSettings, DEFAULT_SETTINGS } from './types';
-import { TextAnalyzer, StatsManager, CacheService } from './services';
-import { StatisticsModal, WordCountSettingTab } from './ui';
+import { App, Plugin, Notice, TFile, TFolder, TAbstractFile, Platform, normalizePath } from 'obsidian';
+import { WordCountSettings, DEFAULT_SETTINGS, TextAnalysisResult, ChangeSource, ImportData, ExportOptions } from './types';
+import { TextAnalyzer, StatsManager, CacheService, ProjectMatcher, ExclusionFilter, NotificationService, StatsStorage, DeviceIdentity, ImportService, ExportService } from './services';
+import { StatisticsModal, WordCountSettingTab, BackupRestoreModal, ImportModal, ExportModal, ExportDestination } from './ui';
 import { registerCommands } from './commands';
-import { debounce, getTodayString, formatNumber, calculatePercentage } from './utils';
+import { debounce, getTodayString, addDays, formatDateString, formatTime, formatNumber, calculatePercentage, CONSTANTS, SCRIPTS } from './utils';
 
 export class WordCountPlugin extends Plugin {
 	settings: WordCountSettings;
@@ -17,9 +17,19 @@ export class WordCountPlugin extends Plugin {
 	private textAnalyzer: TextAnalyzer;
 	private statsManager: StatsManager;
 	private cacheService: CacheService;
+	private projectMatcher: ProjectMatcher;
+	private exclusionFilter: ExclusionFilter;
+	private notificationService: NotificationService;
+	private deviceIdentity: DeviceIdentity;
+	private importService: ImportService;
+	private exportService: ExportService;
+	// 从 data.json 中分离出的旧版本统计数据，迁移完成后清空
+	private legacyStats: unknown[] | null = null;
 	
-	// 防抖函数
-	private debouncedUpdateWordCount: () => void;
+	// 按文件路径的防抖更新函数
+	private debouncedUpdates: Map<string, () => void> = new Map();
+	// 自上次统计以来在编辑器中被编辑过的文件
+	private editorChangedFiles: Set<string> = new Set();
 
 	async onload() {
 		await this.loadSettings();
@@ -46,26 +56,85 @@ export class WordCountPlugin extends Plugin {
 		// 注册文件更改监听（使用防抖）
 		this.registerEvent(
 			this.app.vault.on('modify', (file) => {
-				if (file instanceof TFile && this.isMarkdownFile(file)) {
-					this.debouncedUpdateWordCount();
+				if (file instanceof TFile && this.isTrackedFile(file)) {
+					// 文件内容已变化，缓存失效
+					this.cacheService.delete(this.getCacheKey(file.path));
+					this.scheduleUpdate(file);
+				}
+			})
+		);
+
+		// 记录编辑器内的修改，用于区分用户编辑与后台修改
+		this.registerEvent(
+			this.app.workspace.on('editor-change', (editor, info) => {
+				if (info.file && this.isMarkdownFile(info.file)) {
+					this.editorChangedFiles.add(info.file.path);
 				}
 			})
 		);
 
-		// 注册文件创建监听
+		// 重命名/移动时迁移统计数据
 		this.registerEvent(
-			this.app.vault.on('create', (file) => {
+			this.app.vault.on('rename', (file, oldPath) => {
+				this.handleRename(file, oldPath);
+			})
+		);
+
+		// 删除文件时清理统计基线
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
 				if (file instanceof TFile && this.isMarkdownFile(file)) {
-					this.debouncedUpdateWordCount();
+					this.handleDelete(file);
+				}
+			})
+		);
+
+		// 打开文件时记录当日基线，并写入上一个文件的统计
+		this.registerEvent(
+			this.app.workspace.on('file-open', (file) => {
+				this.flushStats();
+				if (file && this.isTrackedFile(file)) {
+					this.recordFileBaseline(file);
 				}
 			})
 		);
 
+		// 窗口失去焦点时写入统计
+		this.registerDomEvent(window, 'blur', () => {
+			this.flushStats();
+		});
+
+		// 窗口获得焦点时读取其他设备同步过来的统计
+		this.registerDomEvent(window, 'focus', () => {
+			this.statsManager.reloadDevices()
+				.then(() => this.updateStatusBar())
+				.catch(error => console.error('读取其他设备的统计数据失败:', error));
+		});
+
+		// 布局就绪后再监听文件创建，避免启动时为全部文件触发
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(
+				this.app.vault.on('create', (file) => {
+					if (file instanceof TFile && this.isTrackedFile(file)) {
+						this.recordFileBaseline(file);
+					}
+				})
+			);
+
+			const activeFile = this.app.workspace.getActiveFile();
+			if (activeFile && this.isTrackedFile(activeFile)) {
+				this.recordFileBaseline(activeFile);
+			}
+		});
+
 		// 加载历史数据
 		await this.loadHistoricalData();
 	}
 
 	onunload() {
+		// 写入尚未保存的统计数据
+		this.flushStats();
+
 		// 清理状态栏
 		if (this.statusBarItem) {
 			this.statusBarItem.remove();
@@ -75,16 +144,61 @@ export class WordCountPlugin extends Plugin {
 		this.cacheService.clear();
 	}
 
+	/**
+	 * 立即写入尚未保存的统计数据
+	 */
+	private flushStats(): void {
+		this.statsManager.flush().catch(error => {
+			console.error('保存统计数据失败:', error);
+		});
+	}
+
 	/**
 	 * 初始化服务
 	 */
 	private initializeServices(): void {
 		this.textAnalyzer = new TextAnalyzer(this.settings);
-		this.statsManager = new StatsManager(this.app, this.settings);
+		this.deviceIdentity = new DeviceIdentity(this.app);
+		this.statsManager = new StatsManager(
+			this.app,
+			this.settings,
+			new StatsStorage(this.app, this.settings, this.getPluginDir(), this.deviceIdentity),
+			this.deviceIdentity
+		);
 		this.cacheService = new CacheService();
-		
-		// 创建防抖函数
-		this.debouncedUpdateWordCount = debounce(this.updateWordCount.bind(this), 500);
+		this.importService = new ImportService(this.app);
+		this.exportService = new ExportService(this.settings);
+		this.projectMatcher = new ProjectMatcher(this.app, this.settings);
+		this.exclusionFilter = new ExclusionFilter(this.app, this.settings);
+		this.notificationService = new NotificationService(
+			this.app,
+			this.settings,
+			this.statsManager,
+			this.getPluginDir()
+		);
+	}
+
+	/**
+	 * 获取插件目录
+	 */
+	private getPluginDir(): string {
+		return this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+	}
+
+	/**
+	 * 为修改的文件安排一次防抖更新，每个文件独立防抖
+	 * @param file 被修改的文件
+	 */
+	private scheduleUpdate(file: TFile): void {
+		let update = this.debouncedUpdates.get(file.path);
+		if (!update) {
+			update = debounce(() => {
+				this.debouncedUpdates.delete(file.path);
+				this.updateFileWordCount(file);
+			}, CONSTANTS.DEBOUNCE_DELAY);
+			this.debouncedUpdates.set(file.path, update);
+		}
+		update();
 	}
 
 	/**
@@ -94,8 +208,18 @@ export class WordCountPlugin extends Plugin {
 		return file.extension === 'md';
 	}
 
+	/**
+	 * 检查文件是否参与统计：Markdown文件且未被排除规则排除
+	 */
+	private isTrackedFile(file: TFile): boolean {
+		return this.isMarkdownFile(file) && !this.exclusionFilter.isExcluded(file);
+	}
+
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// 旧版本的统计数据与设置混存在 data.json 中，先分离出来等待迁移
+		const { settings, legacyStats } = StatsStorage.extractLegacyStats(await this.loadData());
+		this.legacyStats = legacyStats;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
 	}
 
 	async saveSettings() {
@@ -103,6 +227,10 @@ export class WordCountPlugin extends Plugin {
 		// 更新服务中的设置
 		this.textAnalyzer = new TextAnalyzer(this.settings);
 		this.statsManager.updateSettings(this.settings);
+		this.projectMatcher.updateSettings(this.settings);
+		this.exclusionFilter.updateSettings(this.settings);
+		this.notificationService.updateSettings(this.settings);
+		this.exportService.updateSettings(this.settings);
 	}
 
 	/**
@@ -121,52 +249,151 @@ export class WordCountPlugin extends Plugin {
 
 		const todayStats = this.statsManager.getTodayStats();
 		const total = todayStats ? (todayStats.total || 0) : 0;
+		const goal = todayStats ? todayStats.goal : this.statsManager.getGoalForDate(getTodayString(this.settings.dayStartHour));
+
+		if (goal > 0) {
+			const percentage = calculatePercentage(Math.max(total, 0), goal, 0);
+			this.statusBarItem.setText(`📝 ${formatNumber(total)} / ${formatNumber(goal)} 字 (${percentage})`);
+			this.statusBarItem.setAttribute('aria-label', `今日字数: ${formatNumber(total)}，目标完成 ${percentage}`);
+		} else {
+			this.statusBarItem.setText(`📝 ${formatNumber(total)} 字`);
+			this.statusBarItem.setAttribute('aria-label', `今日字数: ${formatNumber(total)}`);
+		}
+	}
 
-		this.statusBarItem.setText(`📝 ${formatNumber(total)} 字`);
-		this.statusBarItem.setAttribute('aria-label', `今日字数: ${formatNumber(total)}`);
+	/**
+	 * 获取文件缓存键
+	 */
+	private getCacheKey(filePath: string): string {
+		return `file_${filePath}`;
 	}
 
 	/**
-	 * 更新字数统计
+	 * 读取并分析文件内容
+	 * @param file 要分析的文件
+	 * @returns 分析结果及可见正文
 	 */
-	async updateWordCount() {
+	private async analyzeFile(file: TFile): Promise<{ analysisResult: TextAnalysisResult; text: string }> {
+		// 检查缓存
+		const cacheKey = this.getCacheKey(file.path);
+		let content: string;
+
+		if (this.settings.enableCache && this.cacheService.has(cacheKey)) {
+			content = this.cacheService.get(cacheKey)!;
+		} else {
+			content = await this.app.vault.read(file);
+			if (this.settings.enableCache) {
+				this.cacheService.set(cacheKey, content);
+			}
+		}
+
+		const text = this.textAnalyzer.extractText(content);
+		return { analysisResult: this.textAnalyzer.countCharacters(text), text };
+	}
+
+	/**
+	 * 记录文件的当日基线
+	 * @param file 文件
+	 */
+	async recordFileBaseline(file: TFile) {
+		if (!this.isTrackedFile(file)) return;
+
 		try {
-			const activeFile = this.app.workspace.getActiveFile();
-			if (!activeFile || !this.isMarkdownFile(activeFile)) return;
+			const { analysisResult, text } = await this.analyzeFile(file);
+			this.statsManager.setFileBaseline(file.path, analysisResult, text, this.projectMatcher.getProjectIds(file));
+		} catch (error) {
+			console.error('记录文件基线失败:', error);
+		}
+	}
 
-			// 检查缓存
-			const cacheKey = `file_${activeFile.path}`;
-			let content: string;
-			
-			if (this.settings.enableCache && this.cacheService.has(cacheKey)) {
-				content = this.cacheService.get(cacheKey)!;
-			} else {
-				content = await this.app.vault.read(activeFile);
-				if (this.settings.enableCache) {
-					this.cacheService.set(cacheKey, content);
-				}
-			}
+	/**
+	 * 处理文件或文件夹重命名
+	 * @param file 重命名后的文件
+	 * @param oldPath 原路径
+	 */
+	private async handleRename(file: TAbstractFile, oldPath: string) {
+		try {
+			const isFolder = file instanceof TFolder;
+			if (!isFolder && !(file instanceof TFile && this.isMarkdownFile(file))) return;
+
+			this.cacheService.delete(this.getCacheKey(oldPath));
+			this.debouncedUpdates.delete(oldPath);
+			this.editorChangedFiles.delete(oldPath);
+			await this.statsManager.renamePath(oldPath, file.path, isFolder);
+		} catch (error) {
+			console.error('迁移重命名文件的统计数据失败:', error);
+		}
+	}
+
+	/**
+	 * 处理文件删除
+	 * @param file 被删除的文件
+	 */
+	private async handleDelete(file: TFile) {
+		try {
+			this.cacheService.delete(this.getCacheKey(file.path));
+			this.debouncedUpdates.delete(file.path);
+			this.editorChangedFiles.delete(file.path);
+			await this.statsManager.removeFile(file.path);
+			this.updateStatusBar();
+		} catch (error) {
+			console.error('处理文件删除失败:', error);
+		}
+	}
+
+	/**
+	 * 更新指定文件的字数统计
+	 * @param file 被修改的文件
+	 */
+	async updateFileWordCount(file: TFile) {
+		// 排除的文件不进入文本分析
+		if (!this.isTrackedFile(file)) {
+			this.editorChangedFiles.delete(file.path);
+			return;
+		}
+
+		try {
+			const source: ChangeSource = this.editorChangedFiles.delete(file.path) ? 'editor' : 'background';
 
 			// 分析文本
-			const analysisResult = this.textAnalyzer.analyzeText(content);
+			const { analysisResult, text } = await this.analyzeFile(file);
 			
 			// 更新统计数据
-			await this.statsManager.updateWordCount(activeFile.name, analysisResult);
+			await this.statsManager.updateWordCount(file.path, analysisResult, text, source, this.projectMatcher.getProjectIds(file));
 			
 			// 更新状态栏
 			this.updateStatusBar();
+
+			// 检查成就通知
+			await this.notificationService.check();
 		} catch (error) {
 			console.error('更新字数统计失败:', error);
 			new Notice('更新字数统计失败，请查看控制台获取详细信息');
 		}
 	}
 
+	/**
+	 * 更新当前活动文件的字数统计
+	 */
+	async updateWordCount() {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile || !this.isTrackedFile(activeFile)) return;
+
+		await this.updateFileWordCount(activeFile);
+	}
+
 	/**
 	 * 加载历史数据
 	 */
 	async loadHistoricalData() {
 		try {
-			await this.statsManager.loadData();
+			await this.statsManager.loadData(this.legacyStats);
+			if (this.legacyStats && !this.statsManager.isReadOnly()) {
+				// 统计数据已迁移或并入独立文件，重新保存设置以清理 data.json
+				this.legacyStats = null;
+				await this.saveData(this.settings);
+			}
+			await this.notificationService.load();
 			this.updateStatusBar();
 		} catch (error) {
 			console.error('加载历史数据失败:', error);
@@ -174,14 +401,69 @@ export class WordCountPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 将排除规则应用到历史数据：移除已排除文件在各日期中的记录
+	 * @param quiet 没有受影响的记录时不提示
+	 */
+	async applyExclusionsToHistory(quiet = false) {
+		const isExcluded = (filePath: string) => this.exclusionFilter.isPathExcludedInVault(filePath);
+		const affectedDays = this.statsManager.countDaysWithFiles(isExcluded);
+		if (affectedDays === 0) {
+			if (!quiet) {
+				new Notice('历史数据中没有受排除规则影响的记录');
+			}
+			return;
+		}
+
+		const confirmed = confirm(`有 ${affectedDays} 天的统计包含已排除的文件。\n将从这些日期的总字数、文件明细和项目统计中扣除这些文件的字数（按字符类型的明细无法按文件拆分，保持不变）。\n\n确定要重新计算吗？`);
+		if (!confirmed) return;
+
+		try {
+			await this.statsManager.removeFilesFromHistory(isExcluded);
+			this.updateStatusBar();
+			new Notice(`已重新计算 ${affectedDays} 天的统计数据`);
+		} catch (error) {
+			console.error('重新计算历史数据失败:', error);
+			new Notice('重新计算历史数据失败，请查看控制台获取详细信息');
+		}
+	}
+
+	/**
+	 * 修改历史数据保留期限，会删除数据时需要用户确认
+	 * @param retentionDays 保留天数，0 表示永久保留
+	 * @returns 是否已修改
+	 */
+	async setRetentionDays(retentionDays: number): Promise<boolean> {
+		const expiredDays = this.statsManager.countExpiredDays(retentionDays);
+		if (expiredDays > 0) {
+			const cutoff = addDays(getTodayString(this.settings.dayStartHour), -retentionDays);
+			const confirmed = confirm(`新的保留期限将永久删除 ${cutoff} 之前共 ${expiredDays} 天的统计数据，此操作不可恢复！\n\n确定要继续吗？`);
+			if (!confirmed) return false;
+		}
+
+		this.settings.retentionDays = retentionDays;
+		await this.saveSettings();
+
+		try {
+			const removed = await this.statsManager.pruneHistory();
+			if (removed > 0) {
+				this.updateStatusBar();
+				new Notice(`已删除 ${removed} 天的历史统计数据`);
+			}
+		} catch (error) {
+			console.error('清理历史数据失败:', error);
+			new Notice('清理历史数据失败，请查看控制台获取详细信息');
+		}
+		return true;
+	}
+
 	/**
 	 * 显示统计信息
 	 */
 	showStatistics() {
 		const modal = new StatisticsModal(
 			this.app, 
-			this.statsManager.getAllStats(), 
-			this.statsManager.getStreakData(), 
+			this.statsManager, 
 			this.settings
 		);
 		modal.open();
@@ -204,13 +486,58 @@ export class WordCountPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 获取本机设备名称
+	 */
+	getDeviceName(): string {
+		return this.deviceIdentity.getName();
+	}
+
+	/**
+	 * 设置本机设备名称，下次保存统计时同步给其他设备
+	 * @param name 设备名称，留空恢复默认名称
+	 */
+	setDeviceName(name: string): void {
+		this.deviceIdentity.setName(name);
+	}
+
+	/**
+	 * 从备份恢复统计数据
+	 */
+	async restoreFromBackup() {
+		try {
+			const backups = await this.statsManager.listBackups();
+			if (backups.length === 0) {
+				new Notice('没有可用的备份');
+				return;
+			}
+
+			new BackupRestoreModal(this.app, backups, async (backup) => {
+				const confirmed = confirm(`将用 ${formatDateString(new Date(backup.createdAt))} ${formatTime(backup.createdAt)} 的备份（${backup.count} 天）替换本设备的全部统计数据，当前数据会先自动备份。\n\n确定要恢复吗？`);
+				if (!confirmed) return;
+
+				try {
+					await this.statsManager.restoreBackup(backup.path);
+					this.updateStatusBar();
+					new Notice(`已从备份恢复 ${backup.count} 天的统计数据`);
+				} catch (error) {
+					console.error('从备份恢复失败:', error);
+					new Notice('从备份恢复失败，请查看控制台获取详细信息');
+				}
+			}).open();
+		} catch (error) {
+			console.error('读取备份失败:', error);
+			new Notice('读取备份失败，请查看控制台获取详细信息');
+		}
+	}
+
 	/**
 	 * 显示重置确认对话框
 	 */
 	private async showResetConfirmation(): Promise<boolean> {
 		return new Promise((resolve) => {
 			// 使用简单的确认对话框
-			const confirmed = confirm('此操作将永久删除所有统计数据，包括：\n• 每日写作记录\n• 连续写作天数\n• 热力图数据\n\n此操作不可撤销，确定要继续吗？');
+			const confirmed = confirm('此操作将删除本设备的所有统计数据（其他设备同步过来的数据不受影响），包括：\n• 每日写作记录\n• 连续写作天数\n• 热力图数据\n\n重置前会自动备份，可通过“从备份恢复统计数据”命令恢复。确定要继续吗？');
 			resolve(confirmed);
 		});
 	}
@@ -235,6 +562,7 @@ export class WordCountPlugin extends Plugin {
 			let pluginTotal = 0;
 			if (this.settings.trackChinese) pluginTotal += pluginStats.chinese;
 			if (this.settings.trackEnglish) pluginTotal += pluginStats.english;
+			pluginTotal += pluginStats.other;
 			if (this.settings.trackPunctuation) pluginTotal += pluginStats.punctuation;
 			if (this.settings.trackNumbers) pluginTotal += pluginStats.numbers;
 			if (this.settings.trackSpaces) pluginTotal += pluginStats.spaces;
@@ -246,6 +574,12 @@ export class WordCountPlugin extends Plugin {
 			const simpleNumbers = (content.match(/[0-9]/g) || []).length;
 			const simpleSpaces = (content.match(/ /g) || []).length;
 			const simpleTotal = simpleChinese + simpleEnglish + simplePunctuation + simpleNumbers + simpleSpaces;
+
+			// 按文字统计（计入统计的字符）
+			const scriptLines = SCRIPTS
+				.filter(script => pluginStats.scripts[script.key] > 0)
+				.map(script => `- ${script.label}: ${formatNumber(pluginStats.scripts[script.key])}`)
+				.join('\n');
 			
 			// 显示对比结果
 			const resultMessage = `
@@ -254,12 +588,16 @@ export class WordCountPlugin extends Plugin {
 插件统计结果：
 - 中文字符: ${formatNumber(pluginStats.chinese)}
 - 英文字符: ${formatNumber(pluginStats.english)}
+- 其他文字: ${formatNumber(pluginStats.other)}
 - 标点符号: ${formatNumber(pluginStats.punctuation)}
 - 数字: ${formatNumber(pluginStats.numbers)}
 - 空格: ${formatNumber(pluginStats.spaces)}
 - 总字数: ${formatNumber(pluginTotal)}
 - 词数: ${formatNumber(pluginStats.words)}
 
+按文字统计：
+${scriptLines || '- 无'}
+
 简单统计结果（无预处理）：
 - 中文字符: ${formatNumber(simpleChinese)}
 - 英文字符: ${formatNumber(simpleEnglish)}
@@ -290,26 +628,133 @@ export class WordCountPlugin extends Plugin {
 	 */
 	async exportData() {
 		try {
+			// 只导出本设备的数据：导入时写入本设备，其他设备的数据由同步合并，导出合并后的数据会重复计算
+			const [localDevice] = this.statsManager.getDeviceStats();
+			const allStats = localDevice.days;
 			const data = {
 				settings: this.settings,
-				dailyStats: Array.from(this.statsManager.getAllStats().entries()),
+				deviceId: localDevice.id,
+				deviceName: localDevice.name,
+				dailyStats: allStats.map(stats => [stats.date, stats]),
 				streakData: this.statsManager.getStreakData(),
+				// 汇总：新增、删除与净增
+				summary: {
+					added: allStats.reduce((sum, stats) => sum + stats.added.total, 0),
+					deleted: allStats.reduce((sum, stats) => sum + stats.deleted.total, 0),
+					net: allStats.reduce((sum, stats) => sum + stats.total, 0)
+				},
 				exportDate: new Date().toISOString()
 			};
 			
-			const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+			// 移动端无法下载文件，保存到仓库文件夹
+			await this.saveExportFile(
+				JSON.stringify(data, null, 2),
+				`word-count-backup-${getTodayString(this.settings.dayStartHour)}.json`,
+				Platform.isMobile ? 'vault' : 'download'
+			);
+		} catch (error) {
+			console.error('导出数据失败:', error);
+			new Notice('导出数据失败，请查看控制台获取详细信息');
+		}
+	}
+
+	/**
+	 * 导入统计数据
+	 */
+	importData() {
+		new ImportModal(this.app, this.importService, this.statsManager, this.manifest.id, async (data) => {
+			this.updateStatusBar();
+			new Notice(`已导入 ${data.records.length} 天的统计数据`);
+			if (data.settings) {
+				await this.importSettings(data);
+			}
+		}).open();
+	}
+
+	/**
+	 * 导入文件中的设置，需单独确认
+	 */
+	private async importSettings(data: ImportData) {
+		const confirmed = confirm('导入的文件中还包含插件设置。\n\n是否同时导入设置？当前设置将被覆盖。');
+		if (!confirmed) return;
+
+		try {
+			const { settings } = StatsStorage.extractLegacyStats(data.settings);
+			this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+			await this.saveSettings();
+			this.updateStatusBar();
+			new Notice('设置已导入');
+		} catch (error) {
+			console.error('导入设置失败:', error);
+			new Notice('导入设置失败，请查看控制台获取详细信息');
+		}
+	}
+
+	/**
+	 * 打开导出统计表格对话框
+	 */
+	exportTable() {
+		const dates = Array.from(this.statsManager.getAllStats().keys()).sort();
+		const startDate = dates[0] || getTodayString(this.settings.dayStartHour);
+
+		new ExportModal(this.app, this.settings, startDate, async (options, destination, folder) => {
+			if (folder !== this.settings.exportFolder) {
+				this.settings.exportFolder = folder;
+				await this.saveSettings();
+			}
+			await this.exportStatsTable(options, destination);
+		}).open();
+	}
+
+	/**
+	 * 按选项导出统计表格
+	 */
+	private async exportStatsTable(options: ExportOptions, destination: ExportDestination) {
+		const { content, extension } = this.exportService.export(this.statsManager.getAllStats(), options);
+		const fileName = `字数统计 ${options.startDate} ~ ${options.endDate}.${extension}`;
+		const file = await this.saveExportFile(content, fileName, destination);
+
+		// Markdown表格导出后直接打开
+		if (file && options.format === 'markdown') {
+			await this.app.workspace.getLeaf(true).openFile(file);
+		}
+	}
+
+	/**
+	 * 保存导出文件：下载到电脑，或保存到设置中的仓库文件夹（已存在时覆盖）
+	 * @returns 保存到仓库时返回文件
+	 */
+	private async saveExportFile(content: string, fileName: string, destination: ExportDestination): Promise<TFile | null> {
+		if (destination === 'download') {
+			const blob = new Blob([content], { type: 'application/octet-stream' });
 			const url = URL.createObjectURL(blob);
 			const a = document.createElement('a');
 			a.href = url;
-			a.download = `word-count-backup-${new Date().toISOString().split('T')[0]}.json`;
+			a.download = fileName;
 			a.click();
 			URL.revokeObjectURL(url);
-			
+
 			new Notice('数据导出成功');
-		} catch (error) {
-			console.error('导出数据失败:', error);
-			new Notice('导出数据失败，请查看控制台获取详细信息');
+			return null;
 		}
+
+		const folder = normalizePath(this.settings.exportFolder || '/');
+		if (folder !== '/' && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		const path = normalizePath(`${folder}/${fileName}`);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		let file: TFile;
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+			file = existing;
+		} else {
+			file = await this.app.vault.create(path, content);
+		}
+
+		new Notice(`已导出到 ${path}`);
+		return file;
 	}
 }
 
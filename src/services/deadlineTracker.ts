@@ -0,0 +1,53 @@
+/**
+ * 截止日期目标计算服务
+ */
+
+import { DailyStats, DeadlineGoal, DeadlineProgress } from '../types';
+import { addDays, getDaysDifference } from '../utils';
+
+export class DeadlineTracker {
+	/**
+	 * 计算截止日期目标的进度，随日期推移自动调整所需速度
+	 * @param goal 截止日期目标
+	 * @param dailyStats 目标范围内的统计数据
+	 * @param today 今天的日期
+	 * @returns 目标进度
+	 */
+	evaluate(goal: DeadlineGoal, dailyStats: Map<string, DailyStats>, today: string): DeadlineProgress {
+		const totalDays = Math.max(getDaysDifference(goal.startDate, goal.deadline) + 1, 1);
+		const lastDate = today < goal.deadline ? today : goal.deadline;
+
+		// 逐日累计实际字数
+		const cumulative: Array<{ date: string; total: number }> = [];
+		let running = 0;
+		let writtenBeforeToday = 0;
+		for (let date = goal.startDate; date <= lastDate; date = addDays(date, 1)) {
+			if (date === today) {
+				writtenBeforeToday = running;
+			}
+			running += dailyStats.get(date)?.total || 0;
+			cumulative.push({ date, total: running });
+		}
+		if (today > lastDate) {
+			writtenBeforeToday = running;
+		}
+
+		const written = running;
+		const remaining = Math.max(goal.target - written, 0);
+		const daysLeft = today > goal.deadline ? 0 : getDaysDifference(today < goal.startDate ? goal.startDate : today, goal.deadline) + 1;
+		// 按今天开始前的进度计算每日所需字数，当天写作计入当天配额
+		const requiredPace = daysLeft > 0 ? Math.ceil(Math.max(goal.target - writtenBeforeToday, 0) / daysLeft) : remaining;
+		const elapsedDays = Math.min(Math.max(getDaysDifference(goal.startDate, today) + 1, 0), totalDays);
+		const idealToDate = Math.round((goal.target * elapsedDays) / totalDays);
+
+		return {
+			written,
+			remaining,
+			daysLeft,
+			requiredPace,
+			idealToDate,
+			difference: written - idealToDate,
+			cumulative
+		};
+	}
+}
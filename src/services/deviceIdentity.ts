@@ -0,0 +1,50 @@
+/**
+ * 设备标识服务 - 为每台设备生成稳定的ID，用于分设备保存统计数据
+ * ID和名称保存在本地存储中，不随仓库同步
+ */
+
+import { App, Platform } from 'obsidian';
+import { CONSTANTS, generateId } from '../utils';
+
+export class DeviceIdentity {
+	/** 本机设备ID */
+	readonly id: string;
+
+	constructor(private app: App) {
+		let id = this.app.loadLocalStorage(CONSTANTS.DEVICE_ID_KEY);
+		if (typeof id !== 'string' || !id) {
+			id = generateId();
+			this.app.saveLocalStorage(CONSTANTS.DEVICE_ID_KEY, id);
+		}
+		this.id = id;
+	}
+
+	/**
+	 * 获取本机设备名称，未设置时按平台生成
+	 */
+	getName(): string {
+		const name = this.app.loadLocalStorage(CONSTANTS.DEVICE_NAME_KEY);
+		return typeof name === 'string' && name ? name : this.getDefaultName();
+	}
+
+	/**
+	 * 设置本机设备名称，留空恢复默认名称
+	 * @param name 设备名称
+	 */
+	setName(name: string): void {
+		this.app.saveLocalStorage(CONSTANTS.DEVICE_NAME_KEY, name.trim() || null);
+	}
+
+	/**
+	 * 按平台生成默认设备名称
+	 */
+	private getDefaultName(): string {
+		const platform = Platform.isIosApp ? 'iOS'
+			: Platform.isAndroidApp ? 'Android'
+			: Platform.isMacOS ? 'Mac'
+			: Platform.isWin ? 'Windows'
+			: Platform.isLinux ? 'Linux'
+			: '设备';
+		return `${platform}（${this.id.slice(-4)}）`;
+	}
+}
@@ -0,0 +1,73 @@
+/**
+ * 排除规则服务 - 判断文件是否应排除在统计之外
+ */
+
+import { App, TFile } from 'obsidian';
+import { WordCountSettings } from '../types';
+import { CONSTANTS, globToRegExp } from '../utils';
+
+export class ExclusionFilter {
+	private patterns: RegExp[] = [];
+
+	constructor(private app: App, private settings: WordCountSettings) {
+		this.compilePatterns();
+	}
+
+	/**
+	 * 判断文件是否被排除
+	 * @param file 文件
+	 * @returns 是否排除
+	 */
+	isExcluded(file: TFile): boolean {
+		return this.isPathExcluded(file.path) || this.hasIgnoreFlag(file);
+	}
+
+	/**
+	 * 判断路径是否被排除，文件已不存在时只检查文件夹和通配符规则
+	 * @param filePath 文件路径
+	 * @returns 是否排除
+	 */
+	isPathExcludedInVault(filePath: string): boolean {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		return file instanceof TFile ? this.isExcluded(file) : this.isPathExcluded(filePath);
+	}
+
+	/**
+	 * 检查文件夹和通配符规则
+	 */
+	private isPathExcluded(filePath: string): boolean {
+		const inExcludedFolder = this.settings.excludedFolders.some(folder => {
+			const normalized = folder.trim().replace(/^\/+|\/+$/g, '');
+			return normalized !== '' && filePath.startsWith(`${normalized}/`);
+		});
+		return inExcludedFolder || this.patterns.some(pattern => pattern.test(filePath));
+	}
+
+	/**
+	 * 检查frontmatter中的排除标记，如 writer-stats: ignore
+	 */
+	private hasIgnoreFlag(file: TFile): boolean {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const value = frontmatter?.[CONSTANTS.IGNORE_PROPERTY_KEY];
+		return typeof value === 'string' && value.trim().toLowerCase() === CONSTANTS.IGNORE_PROPERTY_VALUE;
+	}
+
+	/**
+	 * 预编译通配符规则
+	 */
+	private compilePatterns(): void {
+		this.patterns = this.settings.excludedPatterns
+			.map(pattern => pattern.trim())
+			.filter(pattern => pattern.length > 0)
+			.map(pattern => globToRegExp(pattern));
+	}
+
+	/**
+	 * 更新设置
+	 * @param newSettings 新设置
+	 */
+	updateSettings(newSettings: WordCountSettings): void {
+		this.settings = newSettings;
+		this.compilePatterns();
+	}
+}
@@ -0,0 +1,154 @@
+/**
+ * 导出服务 - 按日期范围和粒度汇总统计数据，生成CSV、TSV、JSON或Markdown表格
+ */
+
+import { DailyStats, ExportColumn, ExportFormat, ExportGranularity, ExportOptions, WordCountSettings } from '../types';
+import { addDays, getWeekStartString, getMonthStartString } from '../utils';
+
+/** 可导出的列 */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+	{ key: 'total', label: '净增字数', value: stats => stats.total },
+	{ key: 'added', label: '新增字数', value: stats => stats.added.total },
+	{ key: 'deleted', label: '删除字数', value: stats => stats.deleted.total },
+	{ key: 'chinese', label: '中文字符', value: stats => stats.chinese },
+	{ key: 'english', label: '英文字符', value: stats => stats.english },
+	{ key: 'other', label: '其他文字', value: stats => stats.other },
+	{ key: 'punctuation', label: '标点符号', value: stats => stats.punctuation },
+	{ key: 'numbers', label: '数字', value: stats => stats.numbers },
+	{ key: 'spaces', label: '空格', value: stats => stats.spaces },
+	{ key: 'words', label: '词数', value: stats => stats.words },
+	{ key: 'goal', label: '目标字数', value: stats => stats.goal },
+	{ key: 'completed', label: '完成目标天数', value: stats => stats.completed ? 1 : 0 },
+	{ key: 'writingDays', label: '写作天数', value: stats => stats.total !== 0 ? 1 : 0 },
+	{ key: 'sessions', label: '会话数', value: stats => stats.sessions.length },
+	{ key: 'activeMinutes', label: '写作分钟', value: stats => Math.round(stats.sessions.reduce((sum, session) => sum + session.activeMinutes, 0)) }
+];
+
+/** 默认导出的列 */
+export const DEFAULT_EXPORT_COLUMNS = ['total', 'added', 'deleted', 'goal', 'completed'];
+
+/** 各粒度的日期列标题 */
+const PERIOD_LABELS: Record<ExportGranularity, string> = {
+	day: '日期',
+	week: '周开始日期',
+	month: '月份'
+};
+
+/** 各格式的文件扩展名 */
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+	csv: 'csv',
+	tsv: 'tsv',
+	json: 'json',
+	markdown: 'md'
+};
+
+export class ExportService {
+	constructor(private settings: WordCountSettings) {}
+
+	/**
+	 * 生成导出内容
+	 * @param dailyStats 统计数据
+	 * @param options 导出选项
+	 * @returns 文件内容与扩展名
+	 */
+	export(dailyStats: Map<string, DailyStats>, options: ExportOptions): { content: string; extension: string } {
+		const columns = EXPORT_COLUMNS.filter(column => options.columns.includes(column.key));
+		const rows = this.buildRows(dailyStats, options, columns);
+		const periodLabel = PERIOD_LABELS[options.granularity];
+
+		let content: string;
+		switch (options.format) {
+			case 'json':
+				content = JSON.stringify(rows.map(([period, values]) => {
+					const row: Record<string, string | number> = { period };
+					columns.forEach((column, index) => {
+						row[column.key] = values[index];
+					});
+					return row;
+				}), null, 2);
+				break;
+			case 'markdown':
+				content = this.toMarkdown(options, [periodLabel, ...columns.map(column => column.label)], rows);
+				break;
+			default: {
+				const separator = options.format === 'tsv' ? '\t' : ',';
+				const lines = [[periodLabel, ...columns.map(column => column.label)], ...rows.map(([period, values]) => [period, ...values])]
+					.map(cells => cells.map(cell => this.escapeCell(String(cell), separator)).join(separator));
+				// 带BOM以便电子表格软件识别UTF-8编码
+				content = '\uFEFF' + lines.join('\r\n');
+			}
+		}
+
+		return { content, extension: FORMAT_EXTENSIONS[options.format] };
+	}
+
+	/**
+	 * 按粒度汇总日期范围内的数据，没有数据的时段按0输出
+	 */
+	private buildRows(
+		dailyStats: Map<string, DailyStats>,
+		options: ExportOptions,
+		columns: ExportColumn[]
+	): Array<[string, number[]]> {
+		const rows = new Map<string, number[]>();
+		for (let date = options.startDate; date <= options.endDate; date = addDays(date, 1)) {
+			const period = this.getPeriod(date, options.granularity);
+			const values = rows.get(period) || new Array(columns.length).fill(0);
+			const stats = dailyStats.get(date);
+			if (stats) {
+				columns.forEach((column, index) => {
+					values[index] += column.value(stats);
+				});
+			}
+			rows.set(period, values);
+		}
+		return Array.from(rows.entries());
+	}
+
+	/**
+	 * 获取日期所属的时段
+	 */
+	private getPeriod(date: string, granularity: ExportGranularity): string {
+		switch (granularity) {
+			case 'week':
+				return getWeekStartString(date, this.settings.weekStartDay);
+			case 'month':
+				return getMonthStartString(date).slice(0, 7);
+			default:
+				return date;
+		}
+	}
+
+	/**
+	 * 生成Markdown表格笔记
+	 */
+	private toMarkdown(options: ExportOptions, headers: string[], rows: Array<[string, number[]]>): string {
+		const escape = (cell: string) => cell.replace(/\|/g, '\\|');
+		const lines = [
+			`# 字数统计 ${options.startDate} – ${options.endDate}`,
+			'',
+			`| ${headers.map(escape).join(' | ')} |`,
+			`| ${headers.map((_, index) => index === 0 ? '---' : '---:').join(' | ')} |`,
+			...rows.map(([period, values]) => `| ${[period, ...values].join(' | ')} |`)
+		];
+		return lines.join('\n') + '\n';
+	}
+
+	/**
+	 * 转义CSV/TSV单元格
+	 */
+	private escapeCell(cell: string, separator: string): string {
+		if (cell.includes(separator) || cell.includes('"') || cell.includes('\n')) {
+			return `"${cell.replace(/"/g, '""')}"`;
+		}
+		return cell;
+	}
+
+	/**
+	 * 更新设置
+	 * @param newSettings 新设置
+	 */
+	updateSettings(newSettings: WordCountSettings): void {
+		this.settings = newSettings;
+	}
+}
@@ -0,0 +1,362 @@
+/**
+ * 导入服务 - 解析导出的统计数据、其他字数统计插件的数据和CSV文件，并校验每条记录
+ */
+
+import { App, normalizePath } from 'obsidian';
+import { DailyStats, ImportData, CsvColumnMapping, PluginDataSource } from '../types';
+import { validateStats, parseLooseDate, createEmptyCounts, createScriptCounts } from '../utils';
+
+/** 其他插件数据中表示字符数的字段 */
+const CHARACTER_FIELDS = ['characters', 'chars', 'charCount', 'characterCount'];
+/** 其他插件数据中表示词数的字段 */
+const WORD_FIELDS = ['words', 'wordCount', 'count', 'total'];
+/** 日期键占比达到此值的对象视为按日期记录的历史 */
+const DATE_KEY_RATIO = 0.8;
+
+/** CSV列映射的自动识别规则 */
+const CSV_HEADER_PATTERNS: Record<keyof CsvColumnMapping, RegExp> = {
+	date: /date|day|日期/i,
+	total: /净增|total|net|字数|characters|chars/i,
+	added: /新增|added/i,
+	deleted: /删除|deleted|removed/i,
+	words: /词|words?/i
+};
+
+export class ImportService {
+	constructor(private app: App) {}
+
+	/**
+	 * 解析JSON：优先按本插件导出的完整备份解析，否则尝试按其他插件的数据解析
+	 * 完整备份的 dailyStats 兼容 [日期, 数据] 数组、数据数组或以日期为键的对象
+	 * @param content 文件内容
+	 * @param source 数据来源说明
+	 * @returns 解析后的导入数据
+	 */
+	parse(content: string, source: string): ImportData {
+		let data: any;
+		try {
+			data = JSON.parse(content);
+		} catch (error) {
+			throw new Error('文件不是有效的JSON');
+		}
+
+		const rawStats = Array.isArray(data) ? data : data?.dailyStats;
+		if (!rawStats || typeof rawStats !== 'object') {
+			const pluginData = this.parsePluginData(data, source);
+			if (pluginData.records.length > 0) return pluginData;
+			throw new Error('文件中没有可识别的统计数据');
+		}
+
+		const items: unknown[] = Array.isArray(rawStats)
+			? rawStats.map(item => Array.isArray(item) && item.length === 2 ? item[1] : item)
+			: Object.values(rawStats);
+
+		const settings = !Array.isArray(data) && data.settings && typeof data.settings === 'object' ? data.settings : null;
+		const result = this.validate(items, source, settings);
+		result.deviceId = !Array.isArray(data) && typeof data.deviceId === 'string' ? data.deviceId : null;
+		return result;
+	}
+
+	/**
+	 * 查找可导入的其他插件数据：插件目录下各插件的 data.json，以及 Better Word Count 的 vault-stats.json
+	 * @param ownPluginId 本插件ID，不列出
+	 * @returns 包含按日期记录的历史的数据文件
+	 */
+	async findPluginSources(ownPluginId: string): Promise<PluginDataSource[]> {
+		const adapter = this.app.vault.adapter;
+		const configDir = this.app.vault.configDir;
+		const candidates: PluginDataSource[] = [];
+
+		const pluginsDir = normalizePath(`${configDir}/plugins`);
+		if (await adapter.exists(pluginsDir)) {
+			const { folders } = await adapter.list(pluginsDir);
+			for (const folder of folders) {
+				const id = folder.split('/').pop() || '';
+				if (id === ownPluginId) continue;
+				candidates.push({ name: id, path: normalizePath(`${folder}/data.json`) });
+			}
+		}
+		candidates.push({ name: 'Better Word Count (vault-stats.json)', path: normalizePath(`${configDir}/vault-stats.json`) });
+
+		const sources: PluginDataSource[] = [];
+		for (const candidate of candidates) {
+			try {
+				if (!(await adapter.exists(candidate.path))) continue;
+				const data = JSON.parse(await adapter.read(candidate.path));
+				if (this.parsePluginData(data, candidate.name).records.length > 0) {
+					sources.push(candidate);
+				}
+			} catch (error) {
+				// 无法解析的文件不是可导入的数据
+			}
+		}
+		return sources;
+	}
+
+	/**
+	 * 读取并解析其他插件的数据文件
+	 * @param source 数据文件
+	 * @returns 解析后的导入数据
+	 */
+	async readPluginSource(source: PluginDataSource): Promise<ImportData> {
+		const data = JSON.parse(await this.app.vault.adapter.read(source.path));
+		const result = this.parsePluginData(data, source.name);
+		if (result.records.length === 0) {
+			throw new Error('文件中没有可识别的每日字数历史');
+		}
+		return result;
+	}
+
+	/**
+	 * 从其他插件的数据中找出按日期记录的字数历史并转换为每日统计
+	 * 如 Daily Stats 的 dayCounts（"Mon Jul 12 2021": 字数）、Better Word Count 的 history（日期: {words, characters}）
+	 * 值为数字时同时作为字数和词数；为对象时字符数作为字数，词数作为词数，只有词数时也作为字数
+	 */
+	private parsePluginData(data: unknown, source: string): ImportData {
+		const history = this.findDateMap(data, 0);
+		if (!history) {
+			return { source, records: [], invalid: [], settings: null, deviceId: null };
+		}
+
+		const items: unknown[] = [];
+		for (const [key, value] of Object.entries(history)) {
+			const date = parseLooseDate(key);
+			if (!date) continue;
+
+			let total: number | undefined;
+			let words: number | undefined;
+			if (typeof value === 'number') {
+				total = words = value;
+			} else if (value && typeof value === 'object') {
+				const fields = value as Record<string, unknown>;
+				const characters = this.pickNumber(fields, CHARACTER_FIELDS);
+				words = this.pickNumber(fields, WORD_FIELDS);
+				total = characters ?? words;
+			}
+			items.push(total === undefined ? value : this.createRecord(date, total, 0, 0, words ?? 0));
+		}
+
+		// 同一天可能以不同格式出现多次，合并为一条
+		return this.validate(this.mergeSameDay(items), source, null);
+	}
+
+	/**
+	 * 递归查找以日期为键的对象（最多两层）
+	 */
+	private findDateMap(data: unknown, depth: number): Record<string, unknown> | null {
+		if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+
+		const entries = Object.entries(data as Record<string, unknown>);
+		const dateKeys = entries.filter(([key]) => parseLooseDate(key) !== null).length;
+		if (entries.length > 0 && dateKeys / entries.length >= DATE_KEY_RATIO) {
+			return data as Record<string, unknown>;
+		}
+		if (depth >= 2) return null;
+
+		for (const [, value] of entries) {
+			const found = this.findDateMap(value, depth + 1);
+			if (found) return found;
+		}
+		return null;
+	}
+
+	/**
+	 * 取第一个存在的数值字段
+	 */
+	private pickNumber(fields: Record<string, unknown>, keys: string[]): number | undefined {
+		for (const key of keys) {
+			if (typeof fields[key] === 'number' && isFinite(fields[key] as number)) {
+				return fields[key] as number;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * 解析CSV/TSV文本，自动识别逗号、制表符或分号分隔
+	 * @param content 文件内容
+	 * @returns 行列表，第一行为表头
+	 */
+	parseCsv(content: string): string[][] {
+		const text = content.replace(/^\uFEFF/, '');
+		const firstLine = text.split(/\r?\n/, 1)[0];
+		const separator = ['\t', ';', ','].reduce((best, candidate) =>
+			firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+		const rows: string[][] = [];
+		let row: string[] = [];
+		let cell = '';
+		let quoted = false;
+		for (let i = 0; i < text.length; i++) {
+			const char = text[i];
+			if (quoted) {
+				if (char === '"' && text[i + 1] === '"') {
+					cell += '"';
+					i++;
+				} else if (char === '"') {
+					quoted = false;
+				} else {
+					cell += char;
+				}
+			} else if (char === '"' && cell === '') {
+				quoted = true;
+			} else if (char === separator) {
+				row.push(cell);
+				cell = '';
+			} else if (char === '\n' || char === '\r') {
+				if (char === '\r' && text[i + 1] === '\n') i++;
+				row.push(cell);
+				rows.push(row);
+				row = [];
+				cell = '';
+			} else {
+				cell += char;
+			}
+		}
+		if (cell !== '' || row.length > 0) {
+			row.push(cell);
+			rows.push(row);
+		}
+
+		return rows.filter(cells => cells.some(value => value.trim() !== ''));
+	}
+
+	/**
+	 * 根据表头猜测列映射
+	 * @param headers 表头
+	 * @returns 列映射
+	 */
+	guessCsvMapping(headers: string[]): CsvColumnMapping {
+		const mapping: CsvColumnMapping = { date: -1, total: -1, added: -1, deleted: -1, words: -1 };
+		const used = new Set<number>();
+		// 先匹配含义更具体的列，避免“新增字数”被识别为净增字数
+		for (const field of ['date', 'added', 'deleted', 'total', 'words'] as Array<keyof CsvColumnMapping>) {
+			const index = headers.findIndex((header, i) => !used.has(i) && CSV_HEADER_PATTERNS[field].test(header));
+			if (index >= 0) {
+				mapping[field] = index;
+				used.add(index);
+			}
+		}
+		return mapping;
+	}
+
+	/**
+	 * 按列映射将CSV行转换为每日统计
+	 * @param rows 行列表，第一行为表头
+	 * @param mapping 列映射
+	 * @param source 数据来源说明
+	 * @returns 解析后的导入数据
+	 */
+	fromCsv(rows: string[][], mapping: CsvColumnMapping, source: string): ImportData {
+		const readNumber = (cells: string[], index: number): number => {
+			if (index < 0) return 0;
+			const value = Number((cells[index] || '').replace(/[,\s]/g, ''));
+			return isFinite(value) ? value : NaN;
+		};
+
+		const items: unknown[] = [];
+		const invalid: ImportData['invalid'] = [];
+		rows.slice(1).forEach((cells, index) => {
+			const line = index + 2;
+			const date = parseLooseDate(cells[mapping.date] || '');
+			if (!date) {
+				invalid.push({ record: cells, reason: `第 ${line} 行日期无法识别: ${cells[mapping.date] || ''}` });
+				return;
+			}
+
+			const added = readNumber(cells, mapping.added);
+			const deleted = readNumber(cells, mapping.deleted);
+			const words = readNumber(cells, mapping.words);
+			// 未映射净增列时由新增和删除计算
+			const total = mapping.total >= 0 ? readNumber(cells, mapping.total) : added - deleted;
+			if ([total, added, deleted, words].some(isNaN)) {
+				invalid.push({ record: cells, reason: `第 ${line} 行包含无效的数字` });
+				return;
+			}
+			items.push(this.createRecord(date, total, added, deleted, words));
+		});
+
+		const result = this.validate(items, source, null);
+		result.invalid.unshift(...invalid);
+		return result;
+	}
+
+	/**
+	 * 根据字数创建每日统计记录
+	 * 未提供新增/删除字数时，净增为正计为新增，为负计为删除
+	 */
+	private createRecord(date: string, total: number, added: number, deleted: number, words: number): DailyStats {
+		const addedTotal = added || deleted ? added : Math.max(total, 0);
+		const deletedTotal = added || deleted ? deleted : Math.max(-total, 0);
+		return {
+			date,
+			chinese: 0,
+			english: 0,
+			other: 0,
+			scripts: createScriptCounts(),
+			punctuation: 0,
+			numbers: 0,
+			spaces: 0,
+			words,
+			total,
+			goal: 0,
+			completed: total > 0,
+			added: { ...createEmptyCounts(), words: Math.max(words, 0), total: addedTotal },
+			deleted: { ...createEmptyCounts(), total: deletedTotal },
+			files: {},
+			sessions: [],
+			hourly: new Array(24).fill(0),
+			projects: {},
+			charChanges: []
+		};
+	}
+
+	/**
+	 * 合并同一天的多条由其他来源转换的记录
+	 */
+	private mergeSameDay(items: unknown[]): unknown[] {
+		const byDate = new Map<string, DailyStats>();
+		const others: unknown[] = [];
+		for (const item of items) {
+			const stats = item as DailyStats;
+			if (!stats || typeof stats.date !== 'string' || typeof stats.total !== 'number') {
+				others.push(item);
+				continue;
+			}
+			const existing = byDate.get(stats.date);
+			byDate.set(stats.date, existing
+				? this.createRecord(
+					stats.date,
+					existing.total + stats.total,
+					existing.added.total + stats.added.total,
+					existing.deleted.total + stats.deleted.total,
+					existing.words + stats.words
+				)
+				: stats);
+		}
+		return [...byDate.values(), ...others];
+	}
+
+	/**
+	 * 校验记录，无效和日期重复的记录单独列出
+	 */
+	private validate(items: unknown[], source: string, settings: Record<string, unknown> | null): ImportData {
+		const result: ImportData = { source, records: [], invalid: [], settings, deviceId: null };
+		const dates = new Set<string>();
+		for (const item of items) {
+			const validation = validateStats(item);
+			if (!validation.isValid) {
+				result.invalid.push({ record: item, reason: validation.message || '统计数据格式不正确' });
+				continue;
+			}
+			const stats = item as DailyStats;
+			if (dates.has(stats.date)) {
+				result.invalid.push({ record: item, reason: `日期重复: ${stats.date}` });
+				continue;
+			}
+			dates.add(stats.date);
+			result.records.push(stats);
+		}
+		return result;
+	}
+}
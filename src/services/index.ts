@@ -3,6 +3,16 @@
  */
 
 export * from './textAnalyzer';
+export * from './markdownTokenizer';
 export * from './statsManager';
+export * from './statsStorage';
+export * from './deviceIdentity';
 export * from './cacheService';
-
+export * from './sessionTracker';
+export * from './projectMatcher';
+export * from './exclusionFilter';
+export * from './deadlineTracker';
+export * from './streakCalculator';
+export * from './notificationService';
+export * from './importService';
+export * from './exportService';
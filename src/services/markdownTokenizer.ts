@@ -0,0 +1,276 @@
+/**
+ * Markdown分词服务 - 从Obsidian笔记中提取阅读视图中可见的正文
+ */
+
+import { WordCountSettings } from '../types';
+
+/** 引用和标注的行首标记 */
+const QUOTE_PREFIX = /^(\s*>\s?)+/;
+/** 代码块围栏 */
+const FENCE = /^\s*(`{3,}|~{3,})/;
+/** 表格分隔行，如 |---|:--:| */
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+/** 脚注定义 [^1]: 内容 */
+const FOOTNOTE_DEFINITION = /^\s*\[\^[^\]]+\]:\s?(.*)$/;
+/** 分隔线 */
+const HORIZONTAL_RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+/** 标题下划线 === */
+const SETEXT_UNDERLINE = /^\s*=+\s*$/;
+/** 标注标题行 [!note]+ 标题 */
+const CALLOUT_HEADER = /^\s*\[![^\]]+\][+-]?\s*(.*)$/;
+/** 标题标记 */
+const HEADING = /^\s{0,3}#{1,6}(\s+|$)/;
+/** 列表标记及任务复选框 */
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/;
+/** 行尾的块ID ^block-id */
+const BLOCK_ID = /\s\^[A-Za-z0-9-]+\s*$/;
+
+/**
+ * 行内语法，按出现位置依次匹配，先出现的语法优先（如行内代码中的链接不再解析）
+ * 不使用后行断言（iOS 16.4 以下不支持），需要判断前一个字符时将其一并匹配并在替换时保留
+ */
+const INLINE_TOKEN = new RegExp([
+	'(?<ticks>`+)(?<code>[\\s\\S]*?[^`])\\k<ticks>(?!`)',
+	'\\$(?=\\S)(?<math>(?:\\\\.|[^$\\\\])*?\\S)\\$',
+	'!\\[\\[[^\\]]*\\]\\]',
+	'!\\[[^\\]]*\\]\\([^)]*\\)',
+	'\\[\\[(?<target>[^\\]|]*)(?:\\|(?<alias>[^\\]]*))?\\]\\]',
+	'\\[\\^[^\\]]+\\]',
+	'\\^\\[(?<footnote>[^\\]]*)\\]',
+	'\\[(?<linkText>[^\\]]*)\\]\\([^)]*\\)',
+	'<https?:\\/\\/[^>]*>',
+	'https?:\\/\\/[^\\s<>()\\[\\]]+',
+	'<\\/?[a-zA-Z][^>]*>',
+	'(?<tagPrefix>^|\\s)#(?<tag>[\\p{L}\\p{N}_/-]*[\\p{L}_/-][\\p{L}\\p{N}_/-]*)'
+].join('|'), 'gu');
+
+/** 加粗、斜体、删除线和高亮标记 */
+const EMPHASIS = /(\*{1,3}|~~|==)(?=\S)([\s\S]*?\S)\1/gu;
+/** 下划线形式的加粗和斜体，不处理单词内的下划线，$1 为保留的前一个字符 */
+const UNDERSCORE_EMPHASIS = /(^|[^\p{L}\p{N}_])(_{1,3})(?=\S)([\s\S]*?\S)\2(?![\p{L}\p{N}_])/gu;
+/** 转义字符 */
+const ESCAPE = /\\([!-/:-@[-`{-~])/g;
+
+/**
+ * 跨行状态：未闭合的注释
+ */
+interface TokenizerState {
+	/** 当前注释的结束标记，不在注释中时为 null */
+	commentEnd: '%%' | '-->' | null;
+}
+
+export class MarkdownTokenizer {
+	constructor(private settings: WordCountSettings) {}
+
+	/**
+	 * 提取可见正文，各类语法按设置中的统计规则保留或移除
+	 * @param text Markdown文本
+	 * @returns 正文，每行对应一个文本块
+	 */
+	extractProse(text: string): string {
+		const lines = text.replace(/\r\n?/g, '\n').split('\n');
+		const output: string[] = [];
+		const state: TokenizerState = { commentEnd: null };
+
+		let i = this.skipFrontmatter(lines);
+		while (i < lines.length) {
+			const quoted = QUOTE_PREFIX.test(lines[i]);
+			let line = lines[i].replace(QUOTE_PREFIX, '');
+
+			// 代码块
+			const fence = state.commentEnd ? null : line.match(FENCE);
+			if (fence) {
+				i = this.consumeFencedBlock(lines, i, fence[1], output);
+				continue;
+			}
+
+			line = this.stripComments(line, state);
+
+			// 公式块
+			if (line.trim().startsWith('$$')) {
+				i = this.consumeMathBlock(lines, i, output);
+				continue;
+			}
+
+			// 表格：当前行含竖线且下一行为含竖线的分隔行（不含竖线的 --- 是标题下划线或分隔线）
+			const nextLine = i + 1 < lines.length ? lines[i + 1].replace(QUOTE_PREFIX, '') : '';
+			if (line.includes('|') && nextLine.includes('|') && TABLE_DELIMITER.test(nextLine)) {
+				i = this.consumeTable(lines, i, output);
+				continue;
+			}
+
+			// 脚注定义及其缩进的后续行
+			const footnote = line.match(FOOTNOTE_DEFINITION);
+			if (footnote) {
+				if (this.settings.countFootnotes) output.push(this.processInline(footnote[1]));
+				i++;
+				while (i < lines.length && /^( {2,}|\t)\S/.test(lines[i])) {
+					if (this.settings.countFootnotes) output.push(this.processInline(lines[i]));
+					i++;
+				}
+				continue;
+			}
+
+			i++;
+			if (HORIZONTAL_RULE.test(line) || SETEXT_UNDERLINE.test(line)) continue;
+
+			// 标注标题
+			const callout = quoted ? line.match(CALLOUT_HEADER) : null;
+			if (callout) {
+				if (this.settings.countCalloutTitles) output.push(this.processInline(callout[1]));
+				continue;
+			}
+
+			line = line
+				.replace(HEADING, '')
+				.replace(/\s+#+\s*$/, '')
+				.replace(LIST_MARKER, '')
+				.replace(BLOCK_ID, '');
+			output.push(this.processInline(line));
+		}
+
+		return output.join('\n');
+	}
+
+	/**
+	 * 跳过文件开头的frontmatter，只识别第一行为 --- 的情况，正文中的分隔线不受影响
+	 * @returns 正文开始的行号
+	 */
+	private skipFrontmatter(lines: string[]): number {
+		if (lines[0]?.trimEnd() !== '---') return 0;
+		for (let i = 1; i < lines.length; i++) {
+			const line = lines[i].trimEnd();
+			if (line === '---' || line === '...') return i + 1;
+		}
+		return 0;
+	}
+
+	/**
+	 * 读取代码块直到同类且不短于开始标记的结束围栏
+	 * @returns 代码块之后的行号
+	 */
+	private consumeFencedBlock(lines: string[], start: number, marker: string, output: string[]): number {
+		let i = start + 1;
+		while (i < lines.length) {
+			const line = lines[i].replace(QUOTE_PREFIX, '');
+			const closing = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+			i++;
+			if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) break;
+			if (this.settings.countCode) output.push(line);
+		}
+		return i;
+	}
+
+	/**
+	 * 读取 $$ 公式块，支持单行的 $$ 公式 $$
+	 * @returns 公式块之后的行号
+	 */
+	private consumeMathBlock(lines: string[], start: number, output: string[]): number {
+		const first = lines[start].replace(QUOTE_PREFIX, '').trim().slice(2);
+		const content: string[] = [];
+		let i = start + 1;
+		if (first.endsWith('$$')) {
+			content.push(first.slice(0, -2));
+		} else {
+			content.push(first);
+			while (i < lines.length) {
+				const line = lines[i].replace(QUOTE_PREFIX, '').trim();
+				i++;
+				if (line.endsWith('$$')) {
+					content.push(line.slice(0, -2));
+					break;
+				}
+				content.push(line);
+			}
+		}
+		if (this.settings.countMath) output.push(...content);
+		return i;
+	}
+
+	/**
+	 * 读取表格直到不含竖线的行，统计时以单元格内容代替表格
+	 * @returns 表格之后的行号
+	 */
+	private consumeTable(lines: string[], start: number, output: string[]): number {
+		let i = start;
+		while (i < lines.length) {
+			const line = lines[i].replace(QUOTE_PREFIX, '');
+			if (!line.includes('|') || line.trim() === '') break;
+			if (this.settings.countTables && i !== start + 1) {
+				const cells = this.splitCells(line).map(cell => cell.trim()).filter(cell => cell.length > 0);
+				output.push(cells.map(cell => this.processInline(cell)).join(' '));
+			}
+			i++;
+		}
+		return i;
+	}
+
+	/**
+	 * 按未转义的竖线拆分表格行
+	 */
+	private splitCells(line: string): string[] {
+		const cells: string[] = [];
+		let start = 0;
+		for (let i = 0; i < line.length; i++) {
+			if (line[i] === '\\') {
+				i++;
+			} else if (line[i] === '|') {
+				cells.push(line.slice(start, i));
+				start = i + 1;
+			}
+		}
+		cells.push(line.slice(start));
+		return cells;
+	}
+
+	/**
+	 * 移除 %%注释%% 和 HTML 注释，注释可跨行
+	 */
+	private stripComments(line: string, state: TokenizerState): string {
+		let result = '';
+		let rest = line;
+		while (rest) {
+			if (state.commentEnd) {
+				const end = rest.indexOf(state.commentEnd);
+				if (end < 0) return result;
+				rest = rest.slice(end + state.commentEnd.length);
+				state.commentEnd = null;
+			} else {
+				const match = /%%|<!--/.exec(rest);
+				if (!match) return result + rest;
+				result += rest.slice(0, match.index);
+				rest = rest.slice(match.index + match[0].length);
+				state.commentEnd = match[0] === '%%' ? '%%' : '-->';
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * 处理行内语法
+	 * @param text 一行文本
+	 * @returns 可见文本
+	 */
+	private processInline(text: string): string {
+		const { countCode, countMath, countLinkText, countFootnotes, countTags } = this.settings;
+		return text
+			.replace(INLINE_TOKEN, (_match, ...args) => {
+				const groups: Record<string, string | undefined> = args[args.length - 1];
+				if (groups.code !== undefined) return countCode ? groups.code : '';
+				if (groups.math !== undefined) return countMath ? groups.math : '';
+				if (groups.target !== undefined) {
+					// 无别名时显示链接目标，标题和块引用以空格分隔
+					const display = groups.alias ?? groups.target.replace(/[#^]+/g, ' ');
+					return countLinkText ? display : '';
+				}
+				if (groups.footnote !== undefined) return countFootnotes ? groups.footnote : '';
+				if (groups.linkText !== undefined) return countLinkText ? groups.linkText : '';
+				if (groups.tag !== undefined) return (groups.tagPrefix ?? '') + (countTags ? groups.tag : '');
+				// 嵌入、图片、脚注引用、网址和HTML标签
+				return '';
+			})
+			.replace(EMPHASIS, '$2')
+			.replace(UNDERSCORE_EMPHASIS, '$1$3')
+			.replace(ESCAPE, '$1');
+	}
+}
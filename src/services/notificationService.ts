@@ -0,0 +1,180 @@
+/**
+ * 成就通知服务 - 完成目标、达到里程碑、创造新纪录时提醒
+ */
+
+import { App, Notice, normalizePath } from 'obsidian';
+import { WordCountSettings } from '../types';
+import { CONSTANTS, formatNumber, getTodayString } from '../utils';
+import { StatsManager } from './statsManager';
+
+interface Announcement {
+	/** 唯一键，用于避免重复通知 */
+	key: string;
+	/** 通知内容 */
+	message: string;
+	/** 只记录不通知 */
+	silent?: boolean;
+}
+
+export class NotificationService {
+	/** 已通知的键及通知时间 */
+	private announced: Record<string, number> = {};
+
+	constructor(
+		private app: App,
+		private settings: WordCountSettings,
+		private statsManager: StatsManager,
+		private pluginDir: string
+	) {}
+
+	/**
+	 * 加载已通知记录；首次使用时将当前已达成的成就静默标记，避免一次性补发
+	 */
+	async load(): Promise<void> {
+		try {
+			const path = this.getFilePath();
+			if (await this.app.vault.adapter.exists(path)) {
+				const data = JSON.parse(await this.app.vault.adapter.read(path));
+				this.announced = data && typeof data === 'object' ? data : {};
+			} else {
+				await this.check(true);
+			}
+		} catch (error) {
+			console.error('加载通知记录失败:', error);
+		}
+	}
+
+	/**
+	 * 检查是否有新的成就需要通知
+	 * @param silent 只记录不通知
+	 */
+	async check(silent = false): Promise<void> {
+		const newAnnouncements = this.collect().filter(item => !(item.key in this.announced));
+		if (newAnnouncements.length === 0) return;
+
+		const now = Date.now();
+		for (const announcement of newAnnouncements) {
+			this.announced[announcement.key] = now;
+			if (!silent && !announcement.silent) {
+				this.notify(announcement.message);
+			}
+		}
+
+		await this.save();
+	}
+
+	/**
+	 * 收集当前已达成的成就
+	 */
+	private collect(): Announcement[] {
+		const announcements: Announcement[] = [];
+		const today = getTodayString(this.settings.dayStartHour);
+		const todayStats = this.statsManager.getTodayStats();
+		const todayTotal = todayStats?.total || 0;
+
+		if (this.settings.notifyDailyGoal && todayStats && todayStats.goal > 0 && todayTotal >= todayStats.goal) {
+			announcements.push({
+				key: `goal:${today}`,
+				message: `🎉 今日目标已完成：${formatNumber(todayTotal)} / ${formatNumber(todayStats.goal)} 字`
+			});
+		}
+
+		if (this.settings.notifyMilestones) {
+			const scopes = [{ id: '', name: '整个仓库' }, ...this.settings.projects];
+			for (const scope of scopes) {
+				// 首次见到的范围（如新添加的已有历史的项目）与首次使用时一样，已达成的里程碑静默标记
+				const scopeKey = `milestone-scope:${scope.id || 'vault'}`;
+				const silent = !(scopeKey in this.announced);
+				if (silent) {
+					announcements.push({ key: scopeKey, message: '', silent });
+				}
+
+				const cumulative = Array.from(this.statsManager.getProjectStats(scope.id).values())
+					.reduce((sum, stats) => sum + stats.total, 0);
+				for (const milestone of CONSTANTS.MILESTONES) {
+					if (cumulative < milestone) break;
+					announcements.push({
+						key: `milestone:${scope.id || 'vault'}:${milestone}`,
+						message: `🏆 ${scope.name} 累计写作突破 ${formatNumber(milestone)} 字`,
+						silent
+					});
+				}
+			}
+		}
+
+		if (this.settings.notifyBestDay && todayTotal > 0) {
+			const previousBest = Array.from(this.statsManager.getAllStats().values())
+				.filter(stats => stats.date !== today)
+				.reduce((best, stats) => Math.max(best, stats.total), 0);
+			if (previousBest > 0 && todayTotal > previousBest) {
+				announcements.push({
+					key: `best-day:${today}`,
+					message: `🌟 创造单日最高字数纪录：${formatNumber(todayTotal)} 字`
+				});
+			}
+		}
+
+		if (this.settings.notifyLongestStreak) {
+			const streak = this.statsManager.getStreakData();
+			// 当前连续记录之外的最长记录
+			const previousLongest = streak.history
+				.slice(streak.current > 0 ? 1 : 0)
+				.reduce((longest, record) => Math.max(longest, record.length), 0);
+			if (previousLongest > 0 && streak.current > previousLongest) {
+				announcements.push({
+					key: `longest-streak:${today}`,
+					message: `🔥 创造最长连续写作纪录：${streak.current} 天`
+				});
+			}
+		}
+
+		return announcements;
+	}
+
+	/**
+	 * 发送应用内通知，按设置同时发送系统通知
+	 */
+	private notify(message: string): void {
+		new Notice(message, 8000);
+
+		if (!this.settings.useSystemNotifications || typeof Notification === 'undefined') return;
+
+		if (Notification.permission === 'granted') {
+			new Notification('字数统计', { body: message });
+		} else if (Notification.permission !== 'denied') {
+			Notification.requestPermission().then(permission => {
+				if (permission === 'granted') {
+					new Notification('字数统计', { body: message });
+				}
+			}).catch(error => {
+				console.error('请求系统通知权限失败:', error);
+			});
+		}
+	}
+
+	/**
+	 * 保存已通知记录
+	 */
+	private async save(): Promise<void> {
+		try {
+			await this.app.vault.adapter.write(this.getFilePath(), JSON.stringify(this.announced));
+		} catch (error) {
+			console.error('保存通知记录失败:', error);
+		}
+	}
+
+	/**
+	 * 获取已通知记录文件路径
+	 */
+	private getFilePath(): string {
+		return normalizePath(`${this.pluginDir}/${CONSTANTS.ANNOUNCEMENTS_FILE}`);
+	}
+
+	/**
+	 * 更新设置
+	 * @param newSettings 新设置
+	 */
+	updateSettings(newSettings: WordCountSettings): void {
+		this.settings = newSettings;
+	}
+}
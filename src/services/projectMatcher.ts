@@ -0,0 +1,69 @@
+/**
+ * 写作项目匹配服务
+ */
+
+import { App, TFile, getAllTags } from 'obsidian';
+import { WordCountSettings, WritingProject } from '../types';
+
+export class ProjectMatcher {
+	constructor(private app: App, private settings: WordCountSettings) {}
+
+	/**
+	 * 获取文件所属的项目ID
+	 * @param file 文件
+	 * @returns 匹配的项目ID列表
+	 */
+	getProjectIds(file: TFile): string[] {
+		return this.settings.projects
+			.filter(project => this.matches(project, file))
+			.map(project => project.id);
+	}
+
+	/**
+	 * 判断文件是否属于项目
+	 * @param project 项目
+	 * @param file 文件
+	 * @returns 是否匹配
+	 */
+	private matches(project: WritingProject, file: TFile): boolean {
+		const matchValue = project.matchValue.trim();
+
+		switch (project.matchType) {
+			case 'folder': {
+				const folder = matchValue.replace(/^\/+|\/+$/g, '');
+				return folder !== '' && file.path.startsWith(`${folder}/`);
+			}
+			case 'tag': {
+				const tag = matchValue.replace(/^#/, '').toLowerCase();
+				if (!tag) return false;
+				const cache = this.app.metadataCache.getFileCache(file);
+				const tags = cache ? getAllTags(cache) || [] : [];
+				// 嵌套标签 #novel/chapter 也属于 #novel
+				return tags.some(fileTag => {
+					const normalized = fileTag.replace(/^#/, '').toLowerCase();
+					return normalized === tag || normalized.startsWith(`${tag}/`);
+				});
+			}
+			case 'frontmatter': {
+				const key = project.propertyKey.trim();
+				if (!key) return false;
+				const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				if (!frontmatter || !(key in frontmatter)) return false;
+				if (!matchValue) return true;
+				const value = frontmatter[key];
+				const values = Array.isArray(value) ? value : [value];
+				return values.some(item => String(item) === matchValue);
+			}
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * 更新设置
+	 * @param newSettings 新设置
+	 */
+	updateSettings(newSettings: WordCountSettings): void {
+		this.settings = newSettings;
+	}
+}
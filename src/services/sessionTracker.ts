@@ -0,0 +1,59 @@
+/**
+ * 写作会话服务
+ */
+
+import { WordCountSettings, WritingSession } from '../types';
+import { CONSTANTS } from '../utils';
+
+export class SessionTracker {
+	constructor(private settings: WordCountSettings) {}
+
+	/**
+	 * 记录一次编辑活动：空闲超时内延续最后一个会话，否则开启新会话
+	 * @param sessions 当日会话列表
+	 * @param timestamp 编辑时间戳
+	 * @param words 本次编辑的净增字数
+	 */
+	recordActivity(sessions: WritingSession[], timestamp: number, words: number): void {
+		const idleGap = this.settings.sessionIdleMinutes * 60 * 1000;
+		const last = sessions[sessions.length - 1];
+
+		if (last && timestamp - last.end <= idleGap) {
+			// 短暂停顿计入活跃时间，较长的停顿只计入上限
+			const interval = Math.max(timestamp - last.end, 0);
+			last.activeMinutes += Math.min(interval, CONSTANTS.SESSION_ACTIVE_INTERVAL) / 60000;
+			last.end = timestamp;
+			last.words += words;
+			last.wpm = this.calculateWpm(last);
+			return;
+		}
+
+		const session: WritingSession = {
+			start: timestamp,
+			end: timestamp,
+			activeMinutes: 0,
+			words,
+			wpm: 0
+		};
+		session.wpm = this.calculateWpm(session);
+		sessions.push(session);
+	}
+
+	/**
+	 * 计算每分钟字数，活跃时间不足最短时间时按最短时间计算
+	 * @param session 写作会话
+	 * @returns 每分钟字数
+	 */
+	private calculateWpm(session: WritingSession): number {
+		const minutes = Math.max(session.activeMinutes, CONSTANTS.SESSION_MIN_MINUTES);
+		return Math.round(session.words / minutes);
+	}
+
+	/**
+	 * 更新设置
+	 * @param newSettings 新设置
+	 */
+	updateSettings(newSettings: WordCountSettings): void {
+		this.settings = newSettings;
+	}
+}
@@ -2,80 +2,443 @@
  * 统计数据管理服务
  */
 
-import { App } from 'obsidian';
-import { DailyStats, StreakData, CharChange, WordCountSettings, TextAnalysisResult } from '../types';
-import { getTodayString, getDaysDifference, CONSTANTS } from '../utils';
+import { App, Notice } from 'obsidian';
+import { DailyStats, StreakData, CharChange, WordCountSettings, TextAnalysisResult, FileBaseline, CharCounts, ScriptCounts, ChangeSource, QuarantinedRecord, BackupInfo, BackupReason, DeviceStats, ImportMode, ImportDiff } from '../types';
+import { getTodayString, addDays, parseDateString, validateStats, normalizeStats, createEmptyCounts, createScriptCounts, isGoalCompleted, CONSTANTS } from '../utils';
+import { SessionTracker } from './sessionTracker';
+import { StreakCalculator } from './streakCalculator';
+import { StatsStorage } from './statsStorage';
+import { TextAnalyzer } from './textAnalyzer';
+import { DeviceIdentity } from './deviceIdentity';
+
+/** 影响字数统计口径的设置，变化后文件基线需要重新建立 */
+const COUNTING_SETTINGS: Array<keyof WordCountSettings> = [
+	'trackChinese', 'trackEnglish', 'trackPunctuation', 'trackNumbers', 'trackSpaces', 'showWordCount', 'countedScripts',
+	'countLinkText', 'countCalloutTitles', 'countFootnotes', 'countTables', 'countTags', 'countCode', 'countMath',
+	'dayStartHour'
+];
 
 export class StatsManager {
+	/** 合并所有设备后的统计数据 */
 	private dailyStats: Map<string, DailyStats> = new Map();
-	private streakData: StreakData = { current: 0, longest: 0, lastDate: '' };
+	/** 本设备的统计数据，只有这部分会被修改和保存 */
+	private localStats: Map<string, DailyStats> = new Map();
+	/** 其他设备的统计数据 */
+	private devices: DeviceStats[] = [];
+	/** 其他设备的统计数据，按日期索引 */
+	private remoteStats: Map<string, DailyStats[]> = new Map();
+	/** 文件基线，按文件路径索引 */
+	private fileBaselines: Map<string, FileBaseline> = new Map();
+	private sessionTracker: SessionTracker;
+	private streakCalculator: StreakCalculator;
+	private textAnalyzer: TextAnalyzer;
+	/** 是否有尚未写入的修改 */
+	private dirty = false;
+	/** 延迟保存的计时器 */
+	private saveTimer: number | null = null;
+	/** 上次开始写入的时间 */
+	private lastSaveTime = 0;
+	/** 正在进行的写入 */
+	private saving: Promise<void> | null = null;
+	/** 当前统计口径，用于判断设置变化是否影响文件基线 */
+	private countingSignature: string;
 
-	constructor(private app: App, private settings: WordCountSettings) {}
+	constructor(
+		private app: App,
+		private settings: WordCountSettings,
+		private storage: StatsStorage,
+		private device: DeviceIdentity
+	) {
+		this.sessionTracker = new SessionTracker(settings);
+		this.streakCalculator = new StreakCalculator(settings);
+		this.textAnalyzer = new TextAnalyzer(settings);
+		this.countingSignature = this.getCountingSignature(settings);
+	}
 
 	/**
-	 * 更新字数统计
-	 * @param fileName 文件名
+	 * 记录文件基线（当日首次出现时的字数）
+	 * 已存在当日基线时不覆盖，保证增量从当日首次打开时算起
+	 * @param filePath 文件路径
 	 * @param analysisResult 文本分析结果
+	 * @param text 可见正文（TextAnalyzer.extractText 的结果）
+	 * @param projectIds 文件所属的项目ID
 	 */
-	async updateWordCount(fileName: string, analysisResult: TextAnalysisResult): Promise<void> {
+	setFileBaseline(filePath: string, analysisResult: TextAnalysisResult, text: string, projectIds: string[] = []): void {
+		const today = getTodayString(this.settings.dayStartHour);
+		const baseline = this.fileBaselines.get(filePath);
+		if (baseline && baseline.date === today) return;
+
+		this.fileBaselines.set(filePath, this.createBaseline(today, analysisResult, text, projectIds));
+	}
+
+	/**
+	 * 更新字数统计 - 将文件相对基线的净增量累加到今日统计
+	 * @param filePath 文件路径
+	 * @param analysisResult 文本分析结果
+	 * @param text 可见正文（TextAnalyzer.extractText 的结果），与基线比较得出新增和删除
+	 * @param source 修改来源
+	 * @param projectIds 文件所属的项目ID
+	 */
+	async updateWordCount(
+		filePath: string,
+		analysisResult: TextAnalysisResult,
+		text: string,
+		source: ChangeSource = 'editor',
+		projectIds: string[] = []
+	): Promise<void> {
 		try {
-			const today = getTodayString();
-			const existingStats = this.dailyStats.get(today) || this.createEmptyStats(today);
+			const today = getTodayString(this.settings.dayStartHour);
+			const current = this.createBaseline(today, analysisResult, text, projectIds);
+			const previous = this.fileBaselines.get(filePath);
+			this.fileBaselines.set(filePath, current);
 
-			// 计算总字数（根据用户设置）
-			let charCount = 0;
-			if (this.settings.trackChinese) charCount += analysisResult.chinese;
-			if (this.settings.trackEnglish) charCount += analysisResult.english;
-			if (this.settings.trackPunctuation) charCount += analysisResult.punctuation;
-			if (this.settings.trackNumbers) charCount += analysisResult.numbers;
-			if (this.settings.trackSpaces) charCount += analysisResult.spaces;
+			// 当日首次见到该文件：仅记录基线，不计入写作量
+			if (!previous || previous.date !== today) return;
 
-			const total = charCount || 0;
-			const completed = total > 0; // 只要有字数就算完成
+			// 不统计后台修改时只推进基线
+			if (source === 'background' && !this.settings.countBackgroundChanges) return;
 
-			// 记录字符变化
-			const charChange: CharChange = {
-				timestamp: Date.now(),
-				action: 'add',
-				fileName,
-				chinese: analysisResult.chinese,
-				english: analysisResult.english,
-				punctuation: analysisResult.punctuation,
-				numbers: analysisResult.numbers,
-				spaces: analysisResult.spaces,
-				words: analysisResult.words,
-				total: total
+			const delta: TextAnalysisResult = {
+				chinese: current.chinese - previous.chinese,
+				english: current.english - previous.english,
+				other: current.other - previous.other,
+				scripts: this.combineScripts(current.scripts, previous.scripts, -1),
+				punctuation: current.punctuation - previous.punctuation,
+				numbers: current.numbers - previous.numbers,
+				spaces: current.spaces - previous.spaces,
+				words: current.words - previous.words
 			};
+			const total = current.total - previous.total;
 
-			// 更新统计数据 - 增量更新而不是累加
-			existingStats.chinese = analysisResult.chinese;
-			existingStats.english = analysisResult.english;
-			existingStats.punctuation = analysisResult.punctuation;
-			existingStats.numbers = analysisResult.numbers;
-			existingStats.spaces = analysisResult.spaces;
-			existingStats.words = analysisResult.words;
-			existingStats.total = total;
-			existingStats.completed = completed;
+			// 比较正文得出新增与删除两部分，等长替换时净增量为0但仍有新增和删除
+			const { added, deleted } = this.splitChanges(previous.text, current.text, delta);
 
-			// 添加字符变化记录
-			existingStats.charChanges.push(charChange);
+			// 内容无变化时不记录
+			if (total === 0 && delta.words === 0 && added.total === 0) return;
+
+			const existingStats = this.localStats.get(today) || this.createEmptyStats(today);
+
+			// 累加净增量
+			existingStats.chinese += delta.chinese;
+			existingStats.english += delta.english;
+			existingStats.other += delta.other;
+			existingStats.scripts = this.combineScripts(existingStats.scripts, delta.scripts);
+			existingStats.punctuation += delta.punctuation;
+			existingStats.numbers += delta.numbers;
+			existingStats.spaces += delta.spaces;
+			existingStats.words += delta.words;
+			existingStats.total += total;
+			existingStats.completed = isGoalCompleted(existingStats.total, existingStats.goal);
+
+			// 累加毛增量和毛删减量
+			this.accumulateCounts(existingStats.added, added);
+			this.accumulateCounts(existingStats.deleted, deleted);
+
+			// 累加到文件明细
+			const fileStats = existingStats.files[filePath] || { total: 0, added: 0, deleted: 0 };
+			fileStats.total += total;
+			fileStats.added += added.total;
+			fileStats.deleted += deleted.total;
+			existingStats.files[filePath] = fileStats;
+
+			// 累加到所属项目
+			for (const projectId of projectIds) {
+				const projectStats = existingStats.projects[projectId] || { total: 0, added: 0, deleted: 0, files: [] };
+				projectStats.total += total;
+				projectStats.added += added.total;
+				projectStats.deleted += deleted.total;
+				if (!projectStats.files.includes(filePath)) {
+					projectStats.files.push(filePath);
+				}
+				existingStats.projects[projectId] = projectStats;
+			}
+
+			// 记录字符变化
+			const timestamp = Date.now();
+			const changes: Array<[CharChange['action'], CharCounts]> = [['add', added], ['delete', deleted]];
+			for (const [action, counts] of changes) {
+				if (counts.total === 0 && counts.words === 0) continue;
+				// 变化记录较多，不保存按文字分类的字符数
+				existingStats.charChanges.push({
+					timestamp,
+					action,
+					fileName: filePath,
+					source,
+					chinese: counts.chinese,
+					english: counts.english,
+					other: counts.other,
+					punctuation: counts.punctuation,
+					numbers: counts.numbers,
+					spaces: counts.spaces,
+					words: counts.words,
+					total: counts.total
+				});
+			}
+
+			// 更新写作会话
+			this.sessionTracker.recordActivity(existingStats.sessions, timestamp, total);
+
+			// 按小时汇总，不受变化记录裁剪影响
+			existingStats.hourly[new Date(timestamp).getHours()] += total;
 
 			// 限制历史记录数量，避免数据过大
 			if (existingStats.charChanges.length > CONSTANTS.MAX_CHAR_CHANGES) {
 				existingStats.charChanges = existingStats.charChanges.slice(-CONSTANTS.MAX_CHAR_CHANGES);
 			}
 
-			this.dailyStats.set(today, existingStats);
-			await this.saveData();
-
-			// 更新连续写作数据
-			this.updateStreakData(today);
+			this.localStats.set(today, existingStats);
+			this.refreshMergedDay(today);
+			this.scheduleSave();
 		} catch (error) {
 			console.error('更新字数统计失败:', error);
 			throw error;
 		}
 	}
 
+	/**
+	 * 文件或文件夹重命名/移动后，将基线与历史记录迁移到新路径
+	 * @param oldPath 原路径
+	 * @param newPath 新路径
+	 * @param isFolder 是否为文件夹
+	 */
+	async renamePath(oldPath: string, newPath: string, isFolder: boolean): Promise<void> {
+		const mapPath = (path: string): string | null => {
+			if (path === oldPath) return newPath;
+			if (isFolder && path.startsWith(`${oldPath}/`)) return newPath + path.slice(oldPath.length);
+			return null;
+		};
+
+		// 迁移基线
+		for (const [path, baseline] of Array.from(this.fileBaselines.entries())) {
+			const mapped = mapPath(path);
+			if (mapped) {
+				this.fileBaselines.delete(path);
+				this.fileBaselines.set(mapped, baseline);
+			}
+		}
+
+		// 迁移历史记录（其他设备的数据由对应设备迁移）
+		let changed = false;
+		for (const stats of this.localStats.values()) {
+			for (const [path, fileStats] of Object.entries(stats.files)) {
+				const mapped = mapPath(path);
+				if (!mapped) continue;
+				delete stats.files[path];
+				const existing = stats.files[mapped];
+				stats.files[mapped] = existing
+					? {
+						total: existing.total + fileStats.total,
+						added: existing.added + fileStats.added,
+						deleted: existing.deleted + fileStats.deleted
+					}
+					: fileStats;
+				changed = true;
+			}
+			for (const projectStats of Object.values(stats.projects)) {
+				projectStats.files = projectStats.files.map(path => {
+					const mapped = mapPath(path);
+					if (mapped) changed = true;
+					return mapped || path;
+				}).filter((path, index, paths) => paths.indexOf(path) === index);
+			}
+			for (const change of stats.charChanges) {
+				const mapped = mapPath(change.fileName);
+				if (mapped) {
+					change.fileName = mapped;
+					changed = true;
+				}
+			}
+		}
+
+		if (changed) {
+			this.rebuildMergedStats();
+			this.scheduleSave();
+		}
+	}
+
+	/**
+	 * 统计文件明细中包含匹配文件的天数
+	 * @param predicate 文件路径判断函数
+	 * @returns 天数
+	 */
+	countDaysWithFiles(predicate: (filePath: string) => boolean): number {
+		return Array.from(this.localStats.values())
+			.filter(stats => Object.keys(stats.files).some(predicate))
+			.length;
+	}
+
+	/**
+	 * 从历史数据中移除匹配文件的写作量
+	 * 总字数、新增/删除总数、文件明细与项目统计可按文件扣除；字符类型明细、会话和小时分布不区分文件，保持不变
+	 * @param predicate 文件路径判断函数
+	 */
+	async removeFilesFromHistory(predicate: (filePath: string) => boolean): Promise<void> {
+		let changed = false;
+		for (const stats of this.localStats.values()) {
+			for (const [path, fileStats] of Object.entries(stats.files)) {
+				if (!predicate(path)) continue;
+
+				stats.total -= fileStats.total;
+				stats.added.total -= fileStats.added;
+				stats.deleted.total -= fileStats.deleted;
+				delete stats.files[path];
+
+				for (const projectStats of Object.values(stats.projects)) {
+					if (!projectStats.files.includes(path)) continue;
+					projectStats.total -= fileStats.total;
+					projectStats.added -= fileStats.added;
+					projectStats.deleted -= fileStats.deleted;
+					projectStats.files = projectStats.files.filter(projectPath => projectPath !== path);
+				}
+				changed = true;
+			}
+			stats.charChanges = stats.charChanges.filter(change => !predicate(change.fileName));
+			stats.completed = isGoalCompleted(stats.total, stats.goal);
+		}
+
+		for (const path of Array.from(this.fileBaselines.keys())) {
+			if (predicate(path)) {
+				this.fileBaselines.delete(path);
+			}
+		}
+
+		if (changed) {
+			this.rebuildMergedStats();
+			await this.saveImmediately();
+		}
+	}
+
+	/**
+	 * 文件被删除后清理基线
+	 * 仅当用户开启"删除文件计为删除"时，才将文件当日字数记为删除，并按基线中记录的所属项目同时计入项目统计
+	 * @param filePath 文件路径
+	 */
+	async removeFile(filePath: string): Promise<void> {
+		const baseline = this.fileBaselines.get(filePath);
+		if (this.settings.countDeletedFiles && baseline && baseline.date === getTodayString(this.settings.dayStartHour)) {
+			await this.updateWordCount(filePath, createEmptyCounts(), '', 'editor', baseline.projectIds);
+		}
+		this.fileBaselines.delete(filePath);
+	}
+
+	/**
+	 * 根据修改前后的正文拆分出新增和删除的分类字数
+	 * 各类字符按文本差异统计，并校正为与净增量一致；词数无法按片段准确统计，仍按净增量的正负拆分
+	 * @param previous 修改前的正文
+	 * @param current 修改后的正文
+	 * @param delta 净增量
+	 * @returns 非负的新增和删除分类字数
+	 */
+	private splitChanges(previous: string, current: string, delta: TextAnalysisResult): { added: CharCounts; deleted: CharCounts } {
+		const { added, deleted } = this.textAnalyzer.diffText(previous, current);
+		for (const key of ['chinese', 'english', 'other', 'punctuation', 'numbers', 'spaces'] as const) {
+			[added[key], deleted[key]] = this.reconcile(added[key], deleted[key], delta[key]);
+		}
+		for (const key of Object.keys(added.scripts) as Array<keyof ScriptCounts>) {
+			[added.scripts[key], deleted.scripts[key]] = this.reconcile(added.scripts[key], deleted.scripts[key], delta.scripts[key]);
+		}
+		added.words = Math.max(delta.words, 0);
+		deleted.words = Math.max(-delta.words, 0);
+		return {
+			added: { ...added, total: this.calculateTotal(added) },
+			deleted: { ...deleted, total: this.calculateTotal(deleted) }
+		};
+	}
+
+	/**
+	 * 校正新增和删除的数量，使两者之差等于净增量
+	 * 片段边界处的字符（如被截断的拉丁单词）可能与整段统计结果不同
+	 * @returns 校正后的新增和删除数量
+	 */
+	private reconcile(added: number, deleted: number, net: number): [number, number] {
+		const difference = net - (added - deleted);
+		return difference >= 0 ? [added + difference, deleted] : [added, deleted - difference];
+	}
+
+	/**
+	 * 将两份按文字分类的字符数按系数相加
+	 * @param base 基础值
+	 * @param other 要加上的值
+	 * @param factor 系数，-1 表示相减
+	 * @returns 新的按文字分类字符数
+	 */
+	private combineScripts(base: ScriptCounts, other: ScriptCounts, factor: 1 | -1 = 1): ScriptCounts {
+		const result = createScriptCounts();
+		for (const key of Object.keys(result) as Array<keyof ScriptCounts>) {
+			result[key] = base[key] + factor * other[key];
+		}
+		return result;
+	}
+
+	/**
+	 * 将分类字数累加到目标上
+	 * @param target 目标
+	 * @param source 来源
+	 */
+	private accumulateCounts(target: CharCounts, source: CharCounts): void {
+		target.chinese += source.chinese;
+		target.english += source.english;
+		target.other += source.other;
+		target.scripts = this.combineScripts(target.scripts, source.scripts);
+		target.punctuation += source.punctuation;
+		target.numbers += source.numbers;
+		target.spaces += source.spaces;
+		target.words += source.words;
+		target.total += source.total;
+	}
+
+	/**
+	 * 根据分析结果创建文件基线
+	 * @param date 日期
+	 * @param analysisResult 文本分析结果
+	 * @param text 可见正文
+	 * @param projectIds 文件所属的项目ID
+	 * @returns 文件基线
+	 */
+	private createBaseline(date: string, analysisResult: TextAnalysisResult, text: string, projectIds: string[]): FileBaseline {
+		return {
+			date,
+			text,
+			projectIds,
+			chinese: analysisResult.chinese,
+			english: analysisResult.english,
+			other: analysisResult.other,
+			scripts: { ...analysisResult.scripts },
+			punctuation: analysisResult.punctuation,
+			numbers: analysisResult.numbers,
+			spaces: analysisResult.spaces,
+			words: analysisResult.words,
+			total: this.calculateTotal(analysisResult)
+		};
+	}
+
+	/**
+	 * 计算总字数（根据用户设置）
+	 * @param analysisResult 文本分析结果
+	 * @returns 总字数
+	 */
+	private calculateTotal(analysisResult: TextAnalysisResult): number {
+		let charCount = 0;
+		if (this.settings.trackChinese) charCount += analysisResult.chinese;
+		if (this.settings.trackEnglish) charCount += analysisResult.english;
+		// 其他文字在分析时已按所选文字过滤
+		charCount += analysisResult.other;
+		if (this.settings.trackPunctuation) charCount += analysisResult.punctuation;
+		if (this.settings.trackNumbers) charCount += analysisResult.numbers;
+		if (this.settings.trackSpaces) charCount += analysisResult.spaces;
+		return charCount || 0;
+	}
+
+	/**
+	 * 获取某日的目标字数，优先使用按星期设置的目标
+	 * @param date 日期
+	 * @returns 目标字数，0 表示不设目标
+	 */
+	getGoalForDate(date: string): number {
+		const weekdayGoal = this.settings.weekdayGoals[parseDateString(date).getDay()];
+		return weekdayGoal ?? this.settings.dailyGoal;
+	}
+
 	/**
 	 * 创建空的统计数据
 	 * @param date 日期
@@ -86,53 +449,31 @@ export class StatsManager {
 			date,
 			chinese: 0,
 			english: 0,
+			other: 0,
+			scripts: createScriptCounts(),
 			punctuation: 0,
 			numbers: 0,
 			spaces: 0,
 			words: 0,
 			total: 0,
-			goal: 0, // 不再使用目标
+			goal: this.getGoalForDate(date),
 			completed: false,
+			added: createEmptyCounts(),
+			deleted: createEmptyCounts(),
+			files: {},
+			sessions: [],
+			hourly: new Array(24).fill(0),
+			projects: {},
 			charChanges: []
 		};
 	}
 
-	/**
-	 * 更新连续写作数据
-	 * @param today 今天的日期
-	 */
-	private updateStreakData(today: string): void {
-		if (this.streakData.lastDate === '') {
-			this.streakData.current = 1;
-			this.streakData.longest = 1;
-			this.streakData.lastDate = today;
-			return;
-		}
-
-		const lastDate = new Date(this.streakData.lastDate);
-		const currentDate = new Date(today);
-		const diffDays = Math.floor((currentDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-
-		if (diffDays === 1) {
-			// 连续写作
-			this.streakData.current++;
-			if (this.streakData.current > this.streakData.longest) {
-				this.streakData.longest = this.streakData.current;
-			}
-			this.streakData.lastDate = today;
-		} else if (diffDays > 1) {
-			// 中断写作
-			this.streakData.current = 1;
-			this.streakData.lastDate = today;
-		}
-	}
-
 	/**
 	 * 获取今日统计数据
 	 * @returns 今日统计数据
 	 */
 	getTodayStats(): DailyStats | undefined {
-		const today = getTodayString();
+		const today = getTodayString(this.settings.dayStartHour);
 		return this.dailyStats.get(today);
 	}
 
@@ -149,28 +490,176 @@ export class StatsManager {
 	 * @returns 连续写作数据
 	 */
 	getStreakData(): StreakData {
-		return this.streakData;
+		return this.streakCalculator.calculate(this.dailyStats, getTodayString(this.settings.dayStartHour));
+	}
+
+	/**
+	 * 获取项目范围内的统计数据
+	 * @param projectId 项目ID，为空时返回整个仓库的数据
+	 * @returns 以项目写作量构造的统计数据Map
+	 */
+	getProjectStats(projectId: string): Map<string, DailyStats> {
+		if (!projectId) return this.dailyStats;
+
+		// 项目视图按项目自己的每日目标判断完成，而不是整个仓库的目标
+		const goal = this.settings.projects.find(project => project.id === projectId)?.dailyGoal || 0;
+		const projectStats = new Map<string, DailyStats>();
+		for (const [date, stats] of this.dailyStats) {
+			const project = stats.projects[projectId];
+			if (!project) continue;
+
+			const view = this.createEmptyStats(date);
+			view.total = project.total;
+			view.goal = goal;
+			view.added.total = project.added;
+			view.deleted.total = project.deleted;
+			view.completed = isGoalCompleted(view.total, view.goal);
+			for (const path of project.files) {
+				if (stats.files[path]) {
+					view.files[path] = stats.files[path];
+				}
+			}
+			projectStats.set(date, view);
+		}
+		return projectStats;
+	}
+
+	/**
+	 * 获取项目范围内的连续写作数据
+	 * @param projectId 项目ID，为空时返回整个仓库的数据
+	 * @returns 连续写作数据
+	 */
+	getProjectStreakData(projectId: string): StreakData {
+		if (!projectId) return this.getStreakData();
+		return this.streakCalculator.calculate(this.getProjectStats(projectId), getTodayString(this.settings.dayStartHour));
 	}
 
 	/**
 	 * 重置所有数据
 	 */
 	async resetData(): Promise<void> {
-		this.dailyStats.clear();
-		this.streakData = { current: 0, longest: 0, lastDate: '' };
-		await this.saveData();
+		await this.createBackup('reset');
+		this.localStats.clear();
+		this.rebuildMergedStats();
+		this.fileBaselines.clear();
+		await this.saveImmediately();
 	}
 
 	/**
-	 * 保存数据到插件存储
+	 * 统计超出保留期限的天数
+	 * @param retentionDays 保留天数，0 表示永久保留
+	 * @returns 将被删除的天数
+	 */
+	countExpiredDays(retentionDays: number): number {
+		if (retentionDays <= 0) return 0;
+		const cutoff = addDays(getTodayString(this.settings.dayStartHour), -retentionDays);
+		return Array.from(this.localStats.keys()).filter(date => date < cutoff).length;
+	}
+
+	/**
+	 * 按保留设置删除过期数据
+	 * @returns 删除的天数
+	 */
+	async pruneHistory(): Promise<number> {
+		const removed = this.applyRetention();
+		this.rebuildMergedStats();
+		if (removed > 0) {
+			await this.saveImmediately();
+		}
+		return removed;
+	}
+
+	/**
+	 * 删除超出保留期限的数据
+	 * @returns 删除的天数
+	 */
+	private applyRetention(): number {
+		if (this.settings.retentionDays <= 0) return 0;
+
+		const cutoff = addDays(getTodayString(this.settings.dayStartHour), -this.settings.retentionDays);
+		let removed = 0;
+		for (const date of Array.from(this.localStats.keys())) {
+			if (date < cutoff) {
+				this.localStats.delete(date);
+				removed++;
+			}
+		}
+		return removed;
+	}
+
+	/**
+	 * 压缩较早日期的数据：丢弃逐次字符变化记录，保留总数、会话和按小时分布
+	 * @returns 压缩的天数
+	 */
+	private compactHistory(): number {
+		const cutoff = addDays(getTodayString(this.settings.dayStartHour), -CONSTANTS.COMPACT_AFTER_DAYS);
+		let compacted = 0;
+		for (const stats of this.localStats.values()) {
+			if (stats.date < cutoff && stats.charChanges.length > 0) {
+				stats.charChanges = [];
+				compacted++;
+			}
+		}
+		return compacted;
+	}
+
+	/**
+	 * 标记数据已修改，保存间隔内的多次修改合并为一次写入
+	 */
+	private scheduleSave(): void {
+		this.dirty = true;
+		if (this.saveTimer !== null) return;
+
+		const delay = Math.max(0, this.lastSaveTime + this.settings.saveIntervalSeconds * 1000 - Date.now());
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = null;
+			this.flush().catch(() => {
+				// 错误已记录，数据保持未保存状态，下次修改时重试
+			});
+		}, delay);
+	}
+
+	/**
+	 * 立即写入修改
+	 */
+	private async saveImmediately(): Promise<void> {
+		this.dirty = true;
+		await this.flush();
+	}
+
+	/**
+	 * 立即写入所有尚未保存的修改
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		// 等待进行中的写入完成，期间产生的修改在其后再次写入
+		if (this.saving) {
+			await this.saving;
+		}
+		if (!this.dirty) return;
+
+		this.dirty = false;
+		this.lastSaveTime = Date.now();
+		this.saving = this.saveData()
+			.catch(error => {
+				this.dirty = true;
+				throw error;
+			})
+			.finally(() => {
+				this.saving = null;
+			});
+		await this.saving;
+	}
+
+	/**
+	 * 保存数据到统计文件
 	 */
 	private async saveData(): Promise<void> {
 		try {
-			// 通过插件实例保存数据
-			const plugin = (this.app as any).plugins.plugins['word-count-plugin'];
-			if (plugin) {
-				await plugin.saveData(Array.from(this.dailyStats.values()));
-			}
+			await this.storage.save(Array.from(this.localStats.values()));
 		} catch (error) {
 			console.error('保存数据失败:', error);
 			throw error;
@@ -178,47 +667,286 @@ export class StatsManager {
 	}
 
 	/**
-	 * 从插件存储加载数据 - 只加载启用插件后的数据
+	 * 从统计文件加载全部历史数据并合并其他设备的数据，任一步失败时禁止写入并提示
+	 * @param legacyStats 从 data.json 中分离出的旧版本统计数据
 	 */
-	async loadData(): Promise<void> {
+	async loadData(legacyStats: unknown[] | null = null): Promise<void> {
 		try {
-			// 通过插件实例加载数据
-			const plugin = (this.app as any).plugins.plugins['word-count-plugin'];
-			const historicalData = plugin ? await plugin.loadData() : null;
-			
-			if (Array.isArray(historicalData)) {
-				// 确保每个数据项都有必要的字段，并修复可能存在的null值
-				const validatedData = historicalData.map(item => ({
-					date: item.date || '',
-					chinese: item.chinese || 0,
-					english: item.english || 0,
-					punctuation: item.punctuation || 0,
-					numbers: item.numbers || 0,
-					spaces: item.spaces || 0,
-					words: item.words || 0,
-					total: item.total || 0,
-					goal: 0, // 不再使用目标
-					completed: item.completed || false,
-					charChanges: item.charChanges || []
-				}));
-				
-				// 只保留启用插件后的数据（从今天开始往前30天）
-				const today = new Date();
-				const thirtyDaysAgo = new Date(today);
-				thirtyDaysAgo.setDate(today.getDate() - 30);
-				
-				const filteredData = validatedData.filter(item => {
-					const itemDate = new Date(item.date);
-					return itemDate >= thirtyDaysAgo && itemDate <= today;
-				});
-				
-				this.dailyStats = new Map(filteredData.map(item => [item.date, item]));
-				console.log(`加载了 ${filteredData.length} 条启用插件后的数据`);
+			const historicalData = await this.storage.load(legacyStats);
+			const quarantined = await this.applyRecords(historicalData);
+			console.log(`加载了 ${this.localStats.size} 天的统计数据`);
+
+			// 移出无效记录、按保留设置清理过期数据并压缩较早的数据
+			if (quarantined + this.applyRetention() + this.compactHistory() > 0) {
+				await this.saveImmediately();
 			}
+
+			await this.reloadDevices();
 		} catch (error) {
+			// 加载或合并的任一步失败都禁止写入，避免用不完整的数据覆盖或删除现有文件
+			this.storage.setReadOnly();
 			console.error('加载历史数据失败:', error);
-			throw error;
+			new Notice('加载历史数据失败，本次不会写入统计数据，请查看控制台获取详细信息');
+		}
+	}
+
+	/**
+	 * 统计数据是否禁止写入
+	 */
+	isReadOnly(): boolean {
+		return this.storage.isReadOnly();
+	}
+
+	/**
+	 * 校验并载入统计记录，无效或日期重复的记录移入隔离文件
+	 * @param records 原始记录
+	 * @returns 隔离的记录数
+	 */
+	private async applyRecords(records: unknown[]): Promise<number> {
+		const dailyStats = new Map<string, DailyStats>();
+		const quarantined: QuarantinedRecord[] = [];
+
+		for (const item of records) {
+			const validation = validateStats(item);
+			if (!validation.isValid) {
+				quarantined.push({ record: item, reason: validation.message || '统计数据格式不正确', quarantinedAt: Date.now() });
+				continue;
+			}
+			const record = normalizeStats(item);
+			if (dailyStats.has(record.date)) {
+				quarantined.push({ record: item, reason: `日期重复: ${record.date}`, quarantinedAt: Date.now() });
+				continue;
+			}
+			dailyStats.set(record.date, record);
+		}
+
+		this.localStats = dailyStats;
+		this.rebuildMergedStats();
+
+		if (quarantined.length > 0) {
+			await this.storage.quarantine(quarantined);
+			console.warn('无效的统计记录:', quarantined);
+			new Notice(`发现 ${quarantined.length} 条无效的统计记录，已移至隔离文件 ${this.storage.getQuarantinePath()}`);
+		}
+		return quarantined.length;
+	}
+
+	/**
+	 * 预览导入：与本设备现有数据比较
+	 * @param records 已通过校验的导入数据
+	 * @returns 差异
+	 */
+	previewImport(records: DailyStats[]): ImportDiff {
+		const diff: ImportDiff = { added: [], changed: [], conflicting: [], unchanged: [] };
+		for (const item of records) {
+			const record = normalizeStats(item);
+			const local = this.localStats.get(record.date);
+			if (!local) {
+				diff.added.push(record.date);
+			} else if (record.total === local.total && record.added.total === local.added.total && record.deleted.total === local.deleted.total) {
+				diff.unchanged.push(record.date);
+			} else if (record.total >= local.total && record.added.total >= local.added.total && record.deleted.total >= local.deleted.total) {
+				diff.changed.push(record.date);
+			} else {
+				diff.conflicting.push(record.date);
+			}
+		}
+		for (const list of Object.values(diff)) {
+			list.sort();
 		}
+		return diff;
+	}
+
+	/**
+	 * 导入统计数据到本设备，导入前先备份
+	 * 替换：用导入数据替换全部数据；取较大值：同一天保留净增字数较多的一份；求和：同一天两份相加
+	 * @param records 已通过校验的导入数据
+	 * @param mode 导入方式
+	 */
+	async importStats(records: DailyStats[], mode: ImportMode): Promise<void> {
+		await this.createBackup('import');
+
+		if (mode === 'replace') {
+			this.localStats = new Map(records.map(item => [item.date, normalizeStats(item)]));
+		} else {
+			for (const item of records) {
+				const record = normalizeStats(item);
+				const local = this.localStats.get(record.date);
+				if (!local) {
+					this.localStats.set(record.date, record);
+				} else if (mode === 'sum') {
+					this.localStats.set(record.date, this.combineDays(record.date, [local, record]));
+				} else if (record.total > local.total) {
+					this.localStats.set(record.date, record);
+				}
+			}
+		}
+
+		this.rebuildMergedStats();
+		await this.saveImmediately();
+	}
+
+	/**
+	 * 重新读取其他设备的统计数据并合并
+	 */
+	async reloadDevices(): Promise<void> {
+		this.devices = await this.storage.loadOtherDevices();
+		this.rebuildMergedStats();
+	}
+
+	/**
+	 * 获取各设备的统计数据，本设备在前
+	 * @returns 各设备的统计数据
+	 */
+	getDeviceStats(): DeviceStats[] {
+		return [
+			{ id: this.device.id, name: this.device.getName(), days: Array.from(this.localStats.values()) },
+			...this.devices
+		];
+	}
+
+	/**
+	 * 查找数据已同步到本仓库的其他设备
+	 * @param id 设备ID
+	 * @returns 设备名称，不是其他设备或没有数据时为 null
+	 */
+	getOtherDeviceName(id: string): string | null {
+		return this.devices.find(device => device.id === id)?.name ?? null;
+	}
+
+	/**
+	 * 重新合并所有日期的统计数据，其他设备超出保留期限的数据不参与合并
+	 */
+	private rebuildMergedStats(): void {
+		const cutoff = this.settings.retentionDays > 0
+			? addDays(getTodayString(this.settings.dayStartHour), -this.settings.retentionDays)
+			: '';
+
+		this.remoteStats.clear();
+		for (const device of this.devices) {
+			for (const stats of device.days) {
+				if (stats.date < cutoff) continue;
+				const list = this.remoteStats.get(stats.date) || [];
+				list.push(stats);
+				this.remoteStats.set(stats.date, list);
+			}
+		}
+
+		// 保持同一个Map实例，已持有引用的视图无需重新获取
+		this.dailyStats.clear();
+		const dates = new Set([...this.localStats.keys(), ...this.remoteStats.keys()]);
+		for (const date of Array.from(dates).sort()) {
+			this.refreshMergedDay(date);
+		}
+	}
+
+	/**
+	 * 重新合并某一天的统计数据
+	 * @param date 日期
+	 */
+	private refreshMergedDay(date: string): void {
+		const merged = this.mergeDay(date);
+		if (merged) {
+			this.dailyStats.set(date, merged);
+		} else {
+			this.dailyStats.delete(date);
+		}
+	}
+
+	/**
+	 * 合并各设备同一天的统计数据，只有本设备有数据时直接使用本设备的数据
+	 * @param date 日期
+	 * @returns 合并后的统计数据
+	 */
+	private mergeDay(date: string): DailyStats | undefined {
+		const local = this.localStats.get(date);
+		const remote = this.remoteStats.get(date) || [];
+		if (remote.length === 0) return local;
+
+		return this.combineDays(date, local ? [local, ...remote] : remote);
+	}
+
+	/**
+	 * 将同一天的多份统计数据相加，目标取第一份的目标
+	 * @param date 日期
+	 * @param sources 统计数据
+	 * @returns 相加后的统计数据
+	 */
+	private combineDays(date: string, sources: DailyStats[]): DailyStats {
+		const merged = this.createEmptyStats(date);
+		merged.goal = sources[0].goal;
+
+		for (const stats of sources) {
+			this.accumulateCounts(merged, stats);
+			this.accumulateCounts(merged.added, stats.added);
+			this.accumulateCounts(merged.deleted, stats.deleted);
+
+			for (const [path, fileStats] of Object.entries(stats.files)) {
+				const existing = merged.files[path] || { total: 0, added: 0, deleted: 0 };
+				merged.files[path] = {
+					total: existing.total + fileStats.total,
+					added: existing.added + fileStats.added,
+					deleted: existing.deleted + fileStats.deleted
+				};
+			}
+
+			for (const [projectId, projectStats] of Object.entries(stats.projects)) {
+				const existing = merged.projects[projectId] || { total: 0, added: 0, deleted: 0, files: [] };
+				merged.projects[projectId] = {
+					total: existing.total + projectStats.total,
+					added: existing.added + projectStats.added,
+					deleted: existing.deleted + projectStats.deleted,
+					files: Array.from(new Set([...existing.files, ...projectStats.files]))
+				};
+			}
+
+			merged.sessions.push(...stats.sessions);
+			merged.charChanges.push(...stats.charChanges);
+			stats.hourly.forEach((value, hour) => {
+				merged.hourly[hour] += value;
+			});
+		}
+
+		merged.sessions.sort((a, b) => a.start - b.start);
+		merged.charChanges.sort((a, b) => a.timestamp - b.timestamp);
+		merged.completed = isGoalCompleted(merged.total, merged.goal);
+		return merged;
+	}
+
+	/**
+	 * 备份当前统计数据
+	 * @param reason 备份原因
+	 */
+	async createBackup(reason: BackupReason): Promise<void> {
+		await this.flush();
+		await this.storage.createBackup(Array.from(this.localStats.values()), reason);
+	}
+
+	/**
+	 * 列出所有备份
+	 */
+	async listBackups(): Promise<BackupInfo[]> {
+		return this.storage.listBackups();
+	}
+
+	/**
+	 * 从备份恢复，恢复前先备份当前数据
+	 * @param path 备份文件路径
+	 */
+	async restoreBackup(path: string): Promise<void> {
+		const records = await this.storage.readBackup(path);
+		await this.createBackup('restore');
+		await this.applyRecords(records);
+		await this.saveImmediately();
+	}
+
+	/**
+	 * 获取统计口径的签名，设置对象会被原地修改，因此保存为字符串以便比较
+	 * @param settings 设置
+	 * @returns 签名
+	 */
+	private getCountingSignature(settings: WordCountSettings): string {
+		return JSON.stringify(COUNTING_SETTINGS.map(key => settings[key]));
 	}
 
 	/**
@@ -227,10 +955,23 @@ export class StatsManager {
 	 */
 	updateSettings(newSettings: WordCountSettings): void {
 		this.settings = newSettings;
-		// 更新所有现有统计数据的completed字段
-		for (const stats of this.dailyStats.values()) {
-			stats.goal = 0; // 不再使用目标
-			stats.completed = stats.total > 0; // 只要有字数就算完成
+		this.sessionTracker.updateSettings(newSettings);
+		this.streakCalculator.updateSettings(newSettings);
+		this.textAnalyzer = new TextAnalyzer(newSettings);
+		this.storage.updateSettings(newSettings);
+		// 统计口径变化时清空基线，避免新旧口径混算产生虚假增量；其他设置不影响基线
+		const signature = this.getCountingSignature(newSettings);
+		if (signature !== this.countingSignature) {
+			this.countingSignature = signature;
+			this.fileBaselines.clear();
+		}
+		// 目标变化只影响今天，历史日期保留当时的目标
+		const today = getTodayString(this.settings.dayStartHour);
+		const todayStats = this.localStats.get(today);
+		if (todayStats) {
+			todayStats.goal = this.getGoalForDate(today);
+			todayStats.completed = isGoalCompleted(todayStats.total, todayStats.goal);
 		}
+		this.refreshMergedDay(today);
 	}
 }
@@ -0,0 +1,678 @@
+/**
+ * 统计数据存储服务 - 统计数据单独保存在插件目录下，与设置（data.json）分离
+ * 每台设备只写入自己的目录，读取时合并其他设备的数据，同步后不会互相覆盖
+ * 旧版本的数据只迁移到所有设备共用的旧版本数据目录，与其他设备的数据一样合并
+ * 按年份拆分为多个文件，保存时只原子写入内容有变化的年份
+ */
+
+import { App, Notice, normalizePath } from 'obsidian';
+import { DailyStats, StatsFile, DeviceStats, WordCountSettings, QuarantinedRecord, BackupInfo, BackupReason } from '../types';
+import { CONSTANTS, formatDateString, validateStats, normalizeStats } from '../utils';
+import { DeviceIdentity } from './deviceIdentity';
+
+/**
+ * 数据结构迁移，键为迁移前的版本，返回下一版本的数据
+ */
+const MIGRATIONS: Record<number, (data: unknown) => StatsFile> = {
+	// 0 → 1：旧版本直接保存在 data.json 中的统计数组
+	0: (data) => ({
+		schemaVersion: 1,
+		days: Array.isArray(data) ? data : []
+	}),
+	// 1 → 2：单文件改为按年份拆分，数据内容不变
+	1: (data) => ({
+		schemaVersion: 2,
+		days: getRawDays(data)
+	}),
+	// 2 → 3：改为每台设备一个目录，数据内容不变
+	2: (data) => ({
+		schemaVersion: 3,
+		days: getRawDays(data)
+	})
+};
+
+/**
+ * 取出数据文件中的每日统计数组，内容未做字段校验
+ */
+function getRawDays(data: unknown): DailyStats[] {
+	const days = data && typeof data === 'object' ? (data as { days?: unknown }).days : undefined;
+	return Array.isArray(days) ? days : [];
+}
+
+/** 年份文件名 */
+const CHUNK_FILE_PATTERN = /^(\d{4})\.json$/;
+
+/** 原子写入使用的临时文件后缀 */
+const TEMP_FILE_SUFFIX = '.tmp';
+
+/** 备份文件名：stats-<时间戳>-<原因>.json */
+const BACKUP_FILE_PATTERN = /^stats-(\d+)-(daily|reset|import|restore)\.json$/;
+
+export class StatsStorage {
+	/** 数据由更新版本的插件保存时禁止写入，避免数据丢失 */
+	private readOnly = false;
+	/** 各年份文件最近一次写入的内容，用于跳过未变化的年份 */
+	private writtenChunks: Map<string, string> = new Map();
+	/** 最近一次每日备份的日期 */
+	private lastDailyBackupDate: string | null = null;
+	/** 其他设备的年份文件缓存，按修改时间判断是否需要重新读取 */
+	private deviceFileCache: Map<string, { mtime: number; data: StatsFile }> = new Map();
+
+	constructor(
+		private app: App,
+		private settings: WordCountSettings,
+		private pluginDir: string,
+		private device: DeviceIdentity
+	) {}
+
+	/**
+	 * 从 data.json 的内容中分离出旧版本混存的统计数据
+	 * 旧版本设置与统计共用 data.json：统计保存时整个文件被数组覆盖，
+	 * 加载设置时数组又被合并进设置对象（以 "0"、"1" 等为键），再次保存设置后两者混在一起
+	 * @param raw data.json 的内容
+	 * @returns 设置部分和统计部分（没有旧数据时为 null）
+	 */
+	static extractLegacyStats(raw: unknown): { settings: Record<string, unknown>; legacyStats: unknown[] | null } {
+		if (Array.isArray(raw)) {
+			return { settings: {}, legacyStats: raw };
+		}
+		if (!raw || typeof raw !== 'object') {
+			return { settings: {}, legacyStats: null };
+		}
+
+		const settings: Record<string, unknown> = {};
+		const legacyStats: Array<[number, unknown]> = [];
+		for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+			if (/^\d+$/.test(key) && StatsStorage.isLegacyDay(value)) {
+				legacyStats.push([Number(key), value]);
+			} else {
+				settings[key] = value;
+			}
+		}
+
+		return {
+			settings,
+			legacyStats: legacyStats.length > 0
+				? legacyStats.sort((a, b) => a[0] - b[0]).map(([, value]) => value)
+				: null
+		};
+	}
+
+	/**
+	 * 判断是否为旧版本的每日统计数据
+	 */
+	private static isLegacyDay(value: unknown): boolean {
+		return !!value && typeof value === 'object' && typeof (value as DailyStats).date === 'string';
+	}
+
+	/**
+	 * 加载本设备的统计数据，必要时迁移旧版本数据
+	 * @param legacyStats 从 data.json 中分离出的旧版本统计数据
+	 * @returns 每日统计数据（未做字段校验）
+	 */
+	async load(legacyStats: unknown[] | null = null): Promise<DailyStats[]> {
+		const folder = this.getDeviceFolderPath();
+		this.writtenChunks.clear();
+
+		let days: DailyStats[] = [];
+		if (await this.app.vault.adapter.exists(folder)) {
+			await this.recoverTempFiles();
+			const chunks = await this.readChunks(folder);
+			days = chunks.days;
+			this.writtenChunks = chunks.contents;
+		}
+
+		await this.migrateLegacy(legacyStats);
+		return days;
+	}
+
+	/**
+	 * 读取目录中的年份文件，无法解析的文件移到一旁，其他年份照常读取
+	 * @param folder 目录路径
+	 * @returns 每日统计数据（未做字段校验）及各年份文件的内容
+	 */
+	private async readChunks(folder: string): Promise<{ days: DailyStats[]; contents: Map<string, string> }> {
+		const days: DailyStats[] = [];
+		const contents = new Map<string, string>();
+		for (const path of await this.listChunkFiles(folder)) {
+			const content = await this.app.vault.adapter.read(path);
+			let data: StatsFile;
+			try {
+				data = this.upgrade(JSON.parse(content));
+				if (!Array.isArray(data.days)) throw new Error('缺少 days 数组');
+			} catch (error) {
+				await this.quarantineFile(path, error);
+				continue;
+			}
+			days.push(...data.days);
+			contents.set(this.getChunkYear(path), content);
+		}
+		return { days, contents };
+	}
+
+	/**
+	 * 迁移旧版本按年份保存的数据、单文件和 data.json 中的统计数据
+	 * 旧版本数据由所有设备共享，因此不并入本设备，而是保存到固定的旧版本数据目录，读取时与其他设备的数据一样合并。
+	 * 多台设备各自迁移同一份数据时写入的是同一目录，相同的记录只保留一份，避免重复计算
+	 * @param legacyStats 从 data.json 中分离出的旧版本统计数据
+	 */
+	private async migrateLegacy(legacyStats: unknown[] | null): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const legacyFile = normalizePath(`${this.pluginDir}/${CONSTANTS.STATS_FILE}`);
+		const sources = (await adapter.exists(this.getFolderPath()))
+			? await this.listChunkFiles(this.getFolderPath())
+			: [];
+		if (await adapter.exists(legacyFile)) {
+			sources.push(legacyFile);
+		}
+
+		const records: unknown[] = [];
+		for (const path of sources) {
+			records.push(...this.upgrade(JSON.parse(await adapter.read(path))).days);
+		}
+		if (legacyStats) {
+			records.push(...legacyStats);
+		}
+		if (records.length === 0 || this.readOnly) return;
+
+		const legacyFolder = this.getLegacyFolderPath();
+		const { days } = (await adapter.exists(legacyFolder))
+			? await this.readChunks(legacyFolder)
+			: { days: [] };
+		// 已迁移的数据无法解析时不再写入，留待下次加载
+		if (this.readOnly) return;
+
+		await this.mergeLegacyStats(this.sanitizeDays(days).days, records);
+		for (const path of sources) {
+			await adapter.remove(path);
+		}
+	}
+
+	/**
+	 * 将旧版本统计数据并入已迁移的数据并保存
+	 * 已迁移数据中没有的日期并入；已有的日期不覆盖，内容不同或无效的记录移入隔离文件
+	 * @param days 已迁移的旧版本数据
+	 * @param legacyStats 旧版本统计数据
+	 */
+	private async mergeLegacyStats(days: DailyStats[], legacyStats: unknown[]): Promise<void> {
+		const existing = new Map(days.map(day => [day.date, day]));
+		const merged: DailyStats[] = [];
+		const quarantined: QuarantinedRecord[] = [];
+		const now = Date.now();
+
+		for (const item of legacyStats) {
+			const validation = validateStats(item);
+			if (!validation.isValid) {
+				quarantined.push({ record: item, reason: `旧版本统计数据无效: ${validation.message}`, quarantinedAt: now });
+				continue;
+			}
+			const record = normalizeStats(item);
+			const migrated = existing.get(record.date);
+			if (!migrated) {
+				existing.set(record.date, record);
+				merged.push(record);
+			} else if (migrated.total !== record.total) {
+				quarantined.push({ record: item, reason: `与已迁移的 ${record.date} 旧版本统计数据不同`, quarantinedAt: now });
+			}
+		}
+
+		if (merged.length > 0) {
+			await this.saveLegacy(Array.from(existing.values()));
+		}
+		if (quarantined.length > 0) {
+			await this.quarantine(quarantined);
+		}
+		if (merged.length + quarantined.length > 0) {
+			console.log(`旧版本统计数据：迁移 ${merged.length} 天，隔离 ${quarantined.length} 条`);
+			new Notice(`已迁移 ${merged.length} 天旧版本统计数据` +
+				(quarantined.length > 0 ? `，${quarantined.length} 条与已迁移的数据不同或无效，已移至隔离文件 ${this.getQuarantinePath()}` : ''));
+		}
+	}
+
+	/**
+	 * 按年份保存旧版本数据，内容只由数据决定，多台设备写入的文件相同
+	 * @param days 旧版本数据
+	 */
+	private async saveLegacy(days: DailyStats[]): Promise<void> {
+		const folder = this.getLegacyFolderPath();
+		await this.ensureFolder(folder);
+
+		const chunks = new Map<string, DailyStats[]>();
+		for (const day of days) {
+			const year = day.date.slice(0, 4);
+			chunks.set(year, [...(chunks.get(year) || []), day]);
+		}
+		for (const [year, chunk] of chunks) {
+			chunk.sort((a, b) => a.date.localeCompare(b.date));
+			const data: StatsFile = {
+				schemaVersion: CONSTANTS.STATS_SCHEMA_VERSION,
+				deviceId: CONSTANTS.LEGACY_DEVICE_ID,
+				deviceName: CONSTANTS.LEGACY_DEVICE_NAME,
+				days: chunk
+			};
+			await this.writeAtomic(normalizePath(`${folder}/${year}.json`), JSON.stringify(data));
+		}
+	}
+
+	/**
+	 * 校验并补全统计记录，跳过无效记录和重复日期
+	 * @param records 原始记录
+	 * @returns 有效记录及跳过的记录数
+	 */
+	private sanitizeDays(records: unknown[]): { days: DailyStats[]; skipped: number } {
+		const days = new Map<string, DailyStats>();
+		let skipped = 0;
+		for (const item of records) {
+			const record = validateStats(item).isValid ? normalizeStats(item) : null;
+			if (!record || days.has(record.date)) {
+				skipped++;
+				continue;
+			}
+			days.set(record.date, record);
+		}
+		return { days: Array.from(days.values()), skipped };
+	}
+
+	/**
+	 * 读取其他设备的统计数据，只重新读取修改过的文件
+	 * @returns 各设备的统计数据
+	 */
+	async loadOtherDevices(): Promise<DeviceStats[]> {
+		const adapter = this.app.vault.adapter;
+		const root = this.getFolderPath();
+		if (!(await adapter.exists(root))) return [];
+
+		const devices: DeviceStats[] = [];
+		const seenFiles = new Set<string>();
+		const { folders } = await adapter.list(root);
+		for (const folder of folders) {
+			const id = folder.split('/').pop() || '';
+			if (!id || id === this.device.id) continue;
+
+			const device: DeviceStats = { id, name: id, days: [] };
+			for (const path of await this.listChunkFiles(folder)) {
+				try {
+					const stat = await adapter.stat(path);
+					const mtime = stat?.mtime || 0;
+					let cached = this.deviceFileCache.get(path);
+					if (!cached || cached.mtime !== mtime) {
+						cached = { mtime, data: this.readDeviceFile(path, await adapter.read(path)) };
+						this.deviceFileCache.set(path, cached);
+					}
+					seenFiles.add(path);
+					device.days.push(...cached.data.days);
+					if (cached.data.deviceName) {
+						device.name = cached.data.deviceName;
+					}
+				} catch (error) {
+					// 同步过程中文件可能不完整，下次读取时重试
+					console.error(`读取设备统计数据失败: ${path}`, error);
+				}
+			}
+			if (device.days.length > 0) {
+				devices.push(device);
+			}
+		}
+
+		for (const path of Array.from(this.deviceFileCache.keys())) {
+			if (!seenFiles.has(path)) {
+				this.deviceFileCache.delete(path);
+			}
+		}
+		return devices;
+	}
+
+	/**
+	 * 解析其他设备的年份文件，与本设备数据一样校验并补全每条记录，跳过无效记录
+	 * @param path 文件路径
+	 * @param content 文件内容
+	 * @returns 只含有效记录的数据
+	 */
+	private readDeviceFile(path: string, content: string): StatsFile {
+		const data = this.upgrade(JSON.parse(content));
+		const { days, skipped } = this.sanitizeDays(Array.isArray(data.days) ? data.days : []);
+		if (skipped > 0) {
+			console.warn(`其他设备的统计数据中有 ${skipped} 条无效或重复的记录: ${path}`);
+			new Notice(`其他设备的统计数据 ${path} 中有 ${skipped} 条无效记录，已跳过`);
+		}
+		return { ...data, days };
+	}
+
+	/**
+	 * 保存本设备的统计数据，按年份写入，删除已没有数据的年份文件
+	 * @param days 每日统计数据
+	 */
+	async save(days: DailyStats[]): Promise<void> {
+		if (this.readOnly) return;
+		await this.ensureDailyBackup(days);
+
+		const adapter = this.app.vault.adapter;
+		await this.ensureFolder(this.getDeviceFolderPath());
+
+		const chunks = new Map<string, DailyStats[]>();
+		for (const day of days) {
+			const year = day.date.slice(0, 4);
+			const chunk = chunks.get(year) || [];
+			chunk.push(day);
+			chunks.set(year, chunk);
+		}
+
+		for (const [year, chunk] of chunks) {
+			chunk.sort((a, b) => a.date.localeCompare(b.date));
+			const data: StatsFile = {
+				schemaVersion: CONSTANTS.STATS_SCHEMA_VERSION,
+				deviceId: this.device.id,
+				deviceName: this.device.getName(),
+				days: chunk
+			};
+			const content = JSON.stringify(data);
+			if (this.writtenChunks.get(year) === content) continue;
+
+			await this.writeAtomic(this.getChunkPath(year), content);
+			this.writtenChunks.set(year, content);
+		}
+
+		for (const year of Array.from(this.writtenChunks.keys())) {
+			if (chunks.has(year)) continue;
+			const path = this.getChunkPath(year);
+			if (await adapter.exists(path)) {
+				await adapter.remove(path);
+			}
+			this.writtenChunks.delete(year);
+		}
+	}
+
+	/**
+	 * 列出目录中的年份文件
+	 */
+	private async listChunkFiles(folder: string): Promise<string[]> {
+		const { files } = await this.app.vault.adapter.list(folder);
+		return files.filter(path => CHUNK_FILE_PATTERN.test(path.split('/').pop() || ''));
+	}
+
+	/**
+	 * 从年份文件路径中取出年份
+	 */
+	private getChunkYear(path: string): string {
+		return (path.split('/').pop() || '').slice(0, 4);
+	}
+
+	/**
+	 * 目录不存在时创建（包括上级目录）
+	 */
+	private async ensureFolder(folder: string): Promise<void> {
+		if (await this.app.vault.adapter.exists(folder)) return;
+
+		const parent = folder.split('/').slice(0, -1).join('/');
+		if (parent) {
+			await this.ensureFolder(parent);
+		}
+		await this.app.vault.adapter.mkdir(folder);
+	}
+
+	/**
+	 * 将无效记录追加到隔离文件
+	 * @param records 无效记录
+	 */
+	async quarantine(records: QuarantinedRecord[]): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		await this.ensureFolder(this.getDeviceFolderPath());
+
+		const path = this.getQuarantinePath();
+		let existing: QuarantinedRecord[] = [];
+		if (await adapter.exists(path)) {
+			try {
+				const data = JSON.parse(await adapter.read(path));
+				existing = Array.isArray(data) ? data : [];
+			} catch (error) {
+				console.error('读取隔离文件失败:', error);
+			}
+		}
+		await this.writeAtomic(path, JSON.stringify([...existing, ...records], null, 2));
+	}
+
+	/**
+	 * 将无法解析的年份文件重命名为不再被加载的隔离文件
+	 * @param path 年份文件路径
+	 * @param error 解析错误
+	 */
+	private async quarantineFile(path: string, error: unknown): Promise<void> {
+		const target = path.replace(/\.json$/, `.corrupt-${Date.now()}.json`);
+		console.error(`统计数据文件无法解析: ${path}`, error);
+		try {
+			await this.app.vault.adapter.rename(path, target);
+		} catch (renameError) {
+			// 无法移走时保留原文件并禁止写入，避免保存时覆盖它
+			console.error(`隔离统计数据文件失败: ${path}`, renameError);
+			this.readOnly = true;
+			new Notice(`统计数据文件 ${path} 无法解析，本次不会写入统计数据`);
+			return;
+		}
+		new Notice(`统计数据文件 ${path} 无法解析，已移至 ${target}，可通过“从备份恢复统计数据”找回`);
+	}
+
+	/**
+	 * 获取隔离文件路径（相对仓库）
+	 */
+	getQuarantinePath(): string {
+		return normalizePath(`${this.getDeviceFolderPath()}/${CONSTANTS.QUARANTINE_FILE}`);
+	}
+
+	/**
+	 * 创建备份，并删除超出保留数量的旧备份
+	 * @param days 每日统计数据
+	 * @param reason 备份原因
+	 */
+	async createBackup(days: DailyStats[], reason: BackupReason): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const folder = this.getBackupFolderPath();
+		await this.ensureFolder(folder);
+
+		const createdAt = Date.now();
+		const content = JSON.stringify({ schemaVersion: CONSTANTS.STATS_SCHEMA_VERSION, createdAt, reason, days });
+		await this.writeAtomic(normalizePath(`${folder}/stats-${createdAt}-${reason}.json`), content);
+		if (reason === 'daily') {
+			this.lastDailyBackupDate = formatDateString(new Date(createdAt));
+		}
+
+		const backups = await this.listBackupFiles();
+		for (const backup of backups.slice(Math.max(this.settings.backupCount, 1))) {
+			await adapter.remove(backup.path);
+		}
+	}
+
+	/**
+	 * 列出所有备份，按时间从新到旧排列
+	 */
+	async listBackups(): Promise<BackupInfo[]> {
+		const backups: BackupInfo[] = [];
+		for (const backup of await this.listBackupFiles()) {
+			try {
+				const data = JSON.parse(await this.app.vault.adapter.read(backup.path));
+				backups.push({ ...backup, count: Array.isArray(data.days) ? data.days.length : 0 });
+			} catch (error) {
+				console.error(`读取备份失败: ${backup.path}`, error);
+			}
+		}
+		return backups;
+	}
+
+	/**
+	 * 读取备份中的统计数据
+	 * @param path 备份文件路径
+	 * @returns 每日统计数据（未做字段校验）
+	 */
+	async readBackup(path: string): Promise<DailyStats[]> {
+		const data = JSON.parse(await this.app.vault.adapter.read(path));
+		return this.upgrade(data).days;
+	}
+
+	/**
+	 * 每天首次保存时创建一次备份
+	 */
+	private async ensureDailyBackup(days: DailyStats[]): Promise<void> {
+		const today = formatDateString(new Date());
+		if (this.lastDailyBackupDate === today) return;
+
+		const latestDaily = (await this.listBackupFiles()).find(backup => backup.reason === 'daily');
+		if (latestDaily && formatDateString(new Date(latestDaily.createdAt)) === today) {
+			this.lastDailyBackupDate = today;
+			return;
+		}
+
+		try {
+			await this.createBackup(days, 'daily');
+		} catch (error) {
+			// 备份失败不影响正常保存
+			console.error('创建每日备份失败:', error);
+		}
+	}
+
+	/**
+	 * 列出备份文件，按时间从新到旧排列
+	 */
+	private async listBackupFiles(): Promise<Array<Omit<BackupInfo, 'count'>>> {
+		const adapter = this.app.vault.adapter;
+		const folder = this.getBackupFolderPath();
+		if (!(await adapter.exists(folder))) return [];
+
+		const { files } = await adapter.list(folder);
+		const backups: Array<Omit<BackupInfo, 'count'>> = [];
+		for (const path of files) {
+			const match = path.split('/').pop()?.match(BACKUP_FILE_PATTERN);
+			if (match) {
+				backups.push({ path, createdAt: Number(match[1]), reason: match[2] as BackupReason });
+			}
+		}
+		return backups.sort((a, b) => b.createdAt - a.createdAt);
+	}
+
+	/**
+	 * 原子写入：先完整写入临时文件，再替换正式文件，避免中途崩溃留下不完整的文件
+	 * @param path 文件路径
+	 * @param content 文件内容
+	 */
+	private async writeAtomic(path: string, content: string): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const tempPath = path + TEMP_FILE_SUFFIX;
+
+		await adapter.write(tempPath, content);
+		if (await adapter.exists(path)) {
+			await adapter.remove(path);
+		}
+		await adapter.rename(tempPath, path);
+	}
+
+	/**
+	 * 处理上次写入中断留下的临时文件
+	 * 正式文件已不存在说明临时文件已完整写入，用它恢复；否则临时文件可能不完整，直接删除
+	 */
+	private async recoverTempFiles(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const { files } = await adapter.list(this.getDeviceFolderPath());
+
+		for (const tempPath of files.filter(path => path.endsWith(TEMP_FILE_SUFFIX))) {
+			const path = tempPath.slice(0, -TEMP_FILE_SUFFIX.length);
+			if (await adapter.exists(path)) {
+				await adapter.remove(tempPath);
+			} else {
+				await adapter.rename(tempPath, path);
+				console.log(`从临时文件恢复统计数据: ${path}`);
+			}
+		}
+	}
+
+	/**
+	 * 检查版本并迁移到当前版本
+	 */
+	private upgrade(raw: unknown): StatsFile {
+		const version = this.getVersion(raw);
+		if (version > CONSTANTS.STATS_SCHEMA_VERSION) {
+			if (!this.readOnly) {
+				console.error(`统计数据版本 ${version} 高于插件支持的版本 ${CONSTANTS.STATS_SCHEMA_VERSION}`);
+				new Notice('统计数据由更新版本的插件保存，请升级插件。本次不会写入统计数据');
+			}
+			this.readOnly = true;
+			const days = (raw as StatsFile).days;
+			return { schemaVersion: version, days: Array.isArray(days) ? days : [] };
+		}
+		return this.migrate(raw, version);
+	}
+
+	/**
+	 * 依次执行迁移，直到当前版本
+	 */
+	private migrate(raw: unknown, version: number): StatsFile {
+		let data = raw as StatsFile;
+		while (version < CONSTANTS.STATS_SCHEMA_VERSION) {
+			data = MIGRATIONS[version](data);
+			version = data.schemaVersion;
+		}
+		return data;
+	}
+
+	/**
+	 * 获取数据结构版本，旧版本的数组视为版本 0
+	 */
+	private getVersion(raw: unknown): number {
+		if (Array.isArray(raw) || !raw || typeof raw !== 'object') return 0;
+		return Number((raw as StatsFile).schemaVersion) || 0;
+	}
+
+	/**
+	 * 是否因数据版本过高等原因禁止写入
+	 */
+	isReadOnly(): boolean {
+		return this.readOnly;
+	}
+
+	/**
+	 * 禁止本次运行期间写入，用于加载失败时避免用不完整的数据覆盖或删除现有文件
+	 */
+	setReadOnly(): void {
+		this.readOnly = true;
+	}
+
+	/**
+	 * 获取统计数据目录路径
+	 */
+	private getFolderPath(): string {
+		return normalizePath(`${this.pluginDir}/${CONSTANTS.STATS_FOLDER}`);
+	}
+
+	/**
+	 * 获取本设备的统计数据目录路径
+	 */
+	private getDeviceFolderPath(): string {
+		return normalizePath(`${this.getFolderPath()}/${this.device.id}`);
+	}
+
+	/**
+	 * 获取旧版本数据迁移后的目录路径，所有设备共用
+	 */
+	private getLegacyFolderPath(): string {
+		return normalizePath(`${this.getFolderPath()}/${CONSTANTS.LEGACY_DEVICE_ID}`);
+	}
+
+	/**
+	 * 获取本设备的备份目录路径
+	 */
+	private getBackupFolderPath(): string {
+		return normalizePath(`${this.pluginDir}/${CONSTANTS.BACKUP_FOLDER}/${this.device.id}`);
+	}
+
+	/**
+	 * 获取本设备的年份文件路径
+	 */
+	private getChunkPath(year: string): string {
+		return normalizePath(`${this.getDeviceFolderPath()}/${year}.json`);
+	}
+
+	/**
+	 * 更新设置
+	 * @param newSettings 新设置
+	 */
+	updateSettings(newSettings: WordCountSettings): void {
+		this.settings = newSettings;
+	}
+}
@@ -0,0 +1,112 @@
+/**
+ * 连续写作计算服务 - 根据历史统计数据推导连续写作天数
+ */
+
+import { DailyStats, StreakData, StreakRecord, WordCountSettings } from '../types';
+import { addDays, parseDateString } from '../utils';
+
+export class StreakCalculator {
+	constructor(private settings: WordCountSettings) {}
+
+	/**
+	 * 从历史数据计算连续写作
+	 * 达到最低字数的日期计入连续天数；休息日和使用冻结的日期不计入也不中断；
+	 * 缺写的日期只有在之后又有达标日、连续记录得以延续时才消耗冻结，连续记录中断时不消耗；
+	 * 今天尚未达标时视为进行中，不中断当前连续记录，结尾缺写的日期在冻结足够时为其预留冻结
+	 * @param dailyStats 统计数据
+	 * @param today 今天的日期
+	 * @returns 连续写作数据
+	 */
+	calculate(dailyStats: Map<string, DailyStats>, today: string): StreakData {
+		const minWords = Math.max(this.settings.streakMinWords, 1);
+		const qualifies = (date: string) => (dailyStats.get(date)?.total || 0) >= minWords;
+
+		const dates = Array.from(dailyStats.keys()).filter(date => date <= today).sort();
+		const history: StreakRecord[] = [];
+		const freezesUsed = new Map<string, number>();
+		// 当前缺口中尚未消耗冻结的缺写日期
+		let missed: string[] = [];
+		let run: StreakRecord | null = null;
+
+		for (let date = dates[0]; date && date <= today; date = addDays(date, 1)) {
+			if (qualifies(date)) {
+				if (run) {
+					this.useFreezes(freezesUsed, missed);
+					missed = [];
+					run.end = date;
+					run.length++;
+				} else {
+					run = { start: date, end: date, length: 1 };
+					history.push(run);
+				}
+				continue;
+			}
+
+			// 没有进行中的连续记录，或今天还没写完，都无需处理
+			if (!run || date === today) continue;
+
+			if (this.isRestDay(date)) continue;
+
+			missed.push(date);
+			if (!this.canFreeze(freezesUsed, missed)) {
+				run = null;
+				missed = [];
+			}
+		}
+
+		// 当前连续记录仍在延续，结尾缺写的日期预留冻结
+		if (run) {
+			this.useFreezes(freezesUsed, missed);
+		}
+
+		return {
+			current: run ? run.length : 0,
+			longest: history.reduce((longest, record) => Math.max(longest, record.length), 0),
+			lastDate: history.length > 0 ? history[history.length - 1].end : '',
+			freezesLeft: Math.max(this.settings.streakFreezesPerMonth - (freezesUsed.get(today.slice(0, 7)) || 0), 0),
+			history: history.reverse()
+		};
+	}
+
+	/**
+	 * 判断剩余冻结次数是否足够覆盖缺写的日期
+	 * @param freezesUsed 各月已使用的冻结次数
+	 * @param missed 缺写的日期
+	 */
+	private canFreeze(freezesUsed: Map<string, number>, missed: string[]): boolean {
+		const needed = new Map<string, number>();
+		for (const date of missed) {
+			const month = date.slice(0, 7);
+			needed.set(month, (needed.get(month) || 0) + 1);
+		}
+		return Array.from(needed.entries())
+			.every(([month, count]) => (freezesUsed.get(month) || 0) + count <= this.settings.streakFreezesPerMonth);
+	}
+
+	/**
+	 * 为缺写的日期消耗冻结
+	 * @param freezesUsed 各月已使用的冻结次数
+	 * @param missed 缺写的日期
+	 */
+	private useFreezes(freezesUsed: Map<string, number>, missed: string[]): void {
+		for (const date of missed) {
+			const month = date.slice(0, 7);
+			freezesUsed.set(month, (freezesUsed.get(month) || 0) + 1);
+		}
+	}
+
+	/**
+	 * 判断是否为休息日
+	 */
+	private isRestDay(date: string): boolean {
+		return this.settings.streakRestDays.includes(parseDateString(date).getDay());
+	}
+
+	/**
+	 * 更新设置
+	 * @param newSettings 新设置
+	 */
+	updateSettings(newSettings: WordCountSettings): void {
+		this.settings = newSettings;
+	}
+}
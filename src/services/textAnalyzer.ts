@@ -2,11 +2,17 @@
  * 文本分析服务
  */
 
-import { WordCountSettings, TextAnalysisResult } from '../types';
-import { REGEX_PATTERNS } from '../utils/constants';
+import { WordCountSettings, TextAnalysisResult, ScriptName } from '../types';
+import { REGEX_PATTERNS, SCRIPTS } from '../utils/constants';
+import { createScriptCounts } from '../utils/helpers';
+import { MarkdownTokenizer } from './markdownTokenizer';
 
 export class TextAnalyzer {
-	constructor(private settings: WordCountSettings) {}
+	private tokenizer: MarkdownTokenizer;
+
+	constructor(private settings: WordCountSettings) {
+		this.tokenizer = new MarkdownTokenizer(settings);
+	}
 
 	/**
 	 * 分析文本内容
@@ -15,93 +21,155 @@ export class TextAnalyzer {
 	 */
 	analyzeText(text: string): TextAnalysisResult {
 		// 预处理文本
-		const cleanText = this.preprocessText(text);
+		const cleanText = this.extractText(text);
 		
 		// 统计字符
 		return this.countCharacters(cleanText);
 	}
 
 	/**
-	 * 预处理文本：移除Markdown语法但保留内容
+	 * 预处理文本：提取可见正文并合并空白
 	 * @param text 原始文本
 	 * @returns 处理后的文本
 	 */
-	private preprocessText(text: string): string {
-		return text
-			.replace(/^---[\s\S]*?---\n/gm, '') // 移除frontmatter
-			.replace(/```[\s\S]*?```/g, '') // 移除代码块
-			.replace(/`[^`]+`/g, '') // 移除行内代码
-			.replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // 保留图片alt文本
-			.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // 保留链接文本
-			.replace(/^#{1,6}\s+/gm, '') // 移除标题标记
-			.replace(/^>\s*/gm, '') // 移除引用标记
-			.replace(/^[-*+]\s+/gm, '') // 移除列表标记
-			.replace(/^\[[ x]\]\s+/gm, '') // 移除任务列表
-			.replace(/<[^>]+>/g, '') // 移除HTML标签
+	extractText(text: string): string {
+		return this.tokenizer.extractProse(text)
 			.replace(/\s+/g, ' ') // 合并空白字符
 			.trim();
 	}
 
 	/**
-	 * 单次遍历统计字符
+	 * 比较修改前后的正文，统计删除和新增的部分
+	 * 去掉相同的开头和结尾后，中间不同的部分即为删除和新增的文本；
+	 * 同一次统计间隔内在多处修改时，各处之间未改动的文本会同时计入删除和新增
+	 * @param previous 修改前的正文（extractText 的结果）
+	 * @param current 修改后的正文（extractText 的结果）
+	 * @returns 新增和删除部分的统计结果
+	 */
+	diffText(previous: string, current: string): { added: TextAnalysisResult; deleted: TextAnalysisResult } {
+		const shorter = Math.min(previous.length, current.length);
+		let prefix = 0;
+		while (prefix < shorter && previous[prefix] === current[prefix]) prefix++;
+		let suffix = 0;
+		while (suffix < shorter - prefix && previous[previous.length - 1 - suffix] === current[current.length - 1 - suffix]) suffix++;
+
+		// 不在代理对中间截断
+		if (prefix > 0 && /[\uD800-\uDBFF]/.test(previous[prefix - 1])) prefix--;
+		if (suffix > 0 && /[\uDC00-\uDFFF]/.test(previous[previous.length - suffix])) suffix--;
+
+		return {
+			added: this.countCharacters(current.slice(prefix, current.length - suffix)),
+			deleted: this.countCharacters(previous.slice(prefix, previous.length - suffix))
+		};
+	}
+
+	/**
+	 * 单次遍历统计字符，按码位遍历以正确处理扩展区汉字等代理对字符
 	 * @param text 要统计的文本
 	 * @returns 统计结果
 	 */
-	private countCharacters(text: string): TextAnalysisResult {
-		let chinese = 0;
-		let english = 0;
-		let punctuation = 0;
-		let numbers = 0;
-		let spaces = 0;
-		let words = 0;
-
-		// 单次遍历统计
-		for (let i = 0; i < text.length; i++) {
-			const char = text[i];
-
-			// 优先检查数字字符（包括全角数字）
-			if (this.settings.trackNumbers && (REGEX_PATTERNS.NUMBERS.test(char) || REGEX_PATTERNS.FULL_WIDTH_NUMBERS.test(char))) {
-				numbers++;
-			}
-			// 然后检查英文字符和单词
-			else if (this.settings.trackEnglish && REGEX_PATTERNS.ENGLISH.test(char)) {
-				// 检查是否是英文单词的开始
-				if (i === 0 || !REGEX_PATTERNS.ENGLISH.test(text[i - 1])) {
-					// 可能是英文单词的开始
-					let j = i;
-					while (j < text.length && REGEX_PATTERNS.ENGLISH.test(text[j])) {
-						j++;
-					}
-					const word = text.substring(i, j);
-
-					// 排除单独的罗马数字和单个字符
-					if (!REGEX_PATTERNS.ROMAN_NUMERALS.test(word) && word.length > 1) {
-						english += word.length; // 统计英文字符数
-						if (this.settings.showWordCount) {
-							words++; // 统计单词数
-						}
-					} else if (word.length === 1 && /^[a-zA-Z]$/.test(word)) {
-						// 单个字母，也计入英文字符统计
-						english++;
-					}
-					i = j - 1; // 因为循环末尾会i++
-				}
+	countCharacters(text: string): TextAnalysisResult {
+		const result: TextAnalysisResult = { chinese: 0, english: 0, other: 0, scripts: createScriptCounts(), punctuation: 0, numbers: 0, spaces: 0, words: 0 };
+		const countedScripts = new Set(this.settings.countedScripts);
+
+		// 当前连续字母所属的文字、长度和内容（内容仅拉丁字母需要，用于排除罗马数字）
+		let runScript: ScriptName | null = null;
+		let runLength = 0;
+		let runText = '';
+		const endRun = () => {
+			if (runScript) {
+				this.countRun(result, runScript, runLength, runText, countedScripts);
 			}
-			// 然后检查中文字符
-			else if (this.settings.trackChinese && REGEX_PATTERNS.CHINESE.test(char)) {
-				chinese++;
+			runScript = null;
+			runLength = 0;
+			runText = '';
+		};
+
+		for (const char of text) {
+			const kind = this.classifyCharacter(char);
+			// 组合附加符号属于前一个字符，不打断单词
+			if (kind === null) continue;
+
+			if (kind === 'number' || kind === 'punctuation' || kind === 'space') {
+				endRun();
+				if (kind === 'number' && this.settings.trackNumbers) result.numbers++;
+				else if (kind === 'punctuation' && this.settings.trackPunctuation) result.punctuation++;
+				else if (kind === 'space' && this.settings.trackSpaces) result.spaces++;
+				continue;
 			}
-			// 然后检查标点符号（包括全角标点）
-			else if (this.settings.trackPunctuation && (REGEX_PATTERNS.PUNCTUATION.test(char) || REGEX_PATTERNS.FULL_WIDTH_PUNCTUATION.test(char))) {
-				punctuation++;
+
+			if (kind !== runScript) {
+				endRun();
+				runScript = kind;
 			}
-			// 最后检查空白字符
-			else if (this.settings.trackSpaces && (char === ' ' || char === '\t' || char === '\n' || char === '\r')) {
-				spaces++;
+			runLength++;
+			if (kind === 'latin') runText += char;
+		}
+		endRun();
+
+		return result;
+	}
+
+	/**
+	 * 统计一段连续的同一文字字母
+	 * @param result 统计结果
+	 * @param script 文字
+	 * @param length 字符数
+	 * @param text 内容（仅拉丁字母）
+	 * @param countedScripts 计入统计的其他文字
+	 */
+	private countRun(result: TextAnalysisResult, script: ScriptName, length: number, text: string, countedScripts: Set<ScriptName>): void {
+		if (script === 'han') {
+			if (!this.settings.trackChinese) return;
+			result.chinese += length;
+			result.scripts.han += length;
+			return;
+		}
+
+		if (script === 'latin') {
+			if (!this.settings.trackEnglish) return;
+			// 排除单独的罗马数字，单个字母只计字符不计词
+			if (length > 1 && !REGEX_PATTERNS.ROMAN_NUMERALS.test(text)) {
+				result.english += length;
+				result.scripts.latin += length;
+				if (this.settings.showWordCount) result.words++;
+			} else if (length === 1) {
+				result.english++;
+				result.scripts.latin++;
 			}
+			return;
+		}
+
+		if (!countedScripts.has(script)) return;
+		result.other += length;
+		result.scripts[script] += length;
+		if (this.settings.showWordCount && SCRIPTS.some(item => item.key === script && item.spaced)) {
+			result.words++;
+		}
+	}
+
+	/**
+	 * 判断单个码位的类别
+	 * @param char 单个码位
+	 * @returns 所属文字、数字、标点或空白，组合附加符号及控制字符返回 null
+	 */
+	private classifyCharacter(char: string): ScriptName | 'number' | 'punctuation' | 'space' | null {
+		const code = char.codePointAt(0) ?? 0;
+		// ASCII 字符直接判断
+		if (code < 0x80) {
+			if ((code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a)) return 'latin';
+			if (code >= 0x30 && code <= 0x39) return 'number';
+			if (code === 0x20 || (code >= 0x09 && code <= 0x0d)) return 'space';
+			return code > 0x20 && code < 0x7f ? 'punctuation' : null;
 		}
 
-		return { chinese, english, punctuation, numbers, spaces, words };
+		if (REGEX_PATTERNS.SPACES.test(char)) return 'space';
+		if (REGEX_PATTERNS.NUMBERS.test(char)) return 'number';
+		if (REGEX_PATTERNS.COMBINING.test(char)) return null;
+		const script = SCRIPTS.find(item => item.pattern.test(char));
+		if (script) return script.key;
+		if (REGEX_PATTERNS.PUNCTUATION.test(char)) return 'punctuation';
+		return null;
 	}
 
 	/**
@@ -110,7 +178,7 @@ export class TextAnalyzer {
 	 * @returns 词数
 	 */
 	calculateSimpleWordCount(text: string): number {
-		const cleanText = this.preprocessText(text);
+		const cleanText = this.extractText(text);
 		if (!cleanText) return 0;
 		return cleanText.split(' ').filter(word => word.length > 0).length;
 	}
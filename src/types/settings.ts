@@ -1,7 +1,26 @@
+import { CONSTANTS } from '../utils/constants';
+import { ScriptName } from './stats';
+
 /**
  * 字数统计插件设置接口
  */
 export interface WordCountSettings {
+	/** 每日目标字数，0 表示不设目标 */
+	dailyGoal: number;
+	/** 按星期（0 为周日）单独设置的目标，null 表示使用每日目标 */
+	weekdayGoals: Array<number | null>;
+	/** 每周目标字数，0 表示不设目标 */
+	weeklyGoal: number;
+	/** 每月目标字数，0 表示不设目标 */
+	monthlyGoal: number;
+	/** 每周开始的星期（0 为周日，1 为周一） */
+	weekStartDay: number;
+	/** 计入连续写作的最低净增字数 */
+	streakMinWords: number;
+	/** 不中断连续写作的休息日（星期，0 为周日） */
+	streakRestDays: number[];
+	/** 每月可用的连续写作冻结次数 */
+	streakFreezesPerMonth: number;
 	/** 是否启用热力图 */
 	enableHeatmap: boolean;
 	/** 热力图颜色配置 */
@@ -24,24 +43,108 @@ export interface WordCountSettings {
 	heatmapMinZoom: number;
 	/** 热力图最大缩放级别 */
 	heatmapMaxZoom: number;
-	/** 是否统计中文字符 */
+	/** 是否统计中文字符（汉字） */
 	trackChinese: boolean;
-	/** 是否统计英文字符 */
+	/** 是否统计英文字符（拉丁字母） */
 	trackEnglish: boolean;
+	/** 计入总字数的其他文字（汉字和拉丁字母由上面两项控制） */
+	countedScripts: ScriptName[];
 	/** 是否统计标点符号 */
 	trackPunctuation: boolean;
 	/** 是否显示状态栏 */
 	showStatusBar: boolean;
-	/** 是否每周重置数据 */
-	resetWeekly: boolean;
 	/** 是否统计数字 */
 	trackNumbers: boolean;
 	/** 是否统计空格 */
 	trackSpaces: boolean;
 	/** 是否显示词数统计 */
 	showWordCount: boolean;
+	/** 统计链接文字：内部链接的别名（无别名时为链接目标）和外部链接的文字 */
+	countLinkText: boolean;
+	/** 统计标注（callout）的自定义标题 */
+	countCalloutTitles: boolean;
+	/** 统计脚注内容 */
+	countFootnotes: boolean;
+	/** 统计表格单元格内容 */
+	countTables: boolean;
+	/** 统计标签文字 */
+	countTags: boolean;
+	/** 统计代码块和行内代码 */
+	countCode: boolean;
+	/** 统计公式 */
+	countMath: boolean;
 	/** 是否启用缓存优化 */
 	enableCache: boolean;
+	/** 统计数据最短保存间隔（秒） */
+	saveIntervalSeconds: number;
+	/** 删除文件时是否将其字数计为删除 */
+	countDeletedFiles: boolean;
+	/** 是否统计后台修改（同步、脚本等非编辑器内的修改） */
+	countBackgroundChanges: boolean;
+	/** 写作会话空闲超时（分钟），超过后结束当前会话 */
+	sessionIdleMinutes: number;
+	/** 每日开始的小时（0-23），此前的写作计入前一天 */
+	dayStartHour: number;
+	/** 完成每日目标时通知 */
+	notifyDailyGoal: boolean;
+	/** 累计字数达到里程碑时通知 */
+	notifyMilestones: boolean;
+	/** 创造单日最高字数时通知 */
+	notifyBestDay: boolean;
+	/** 创造最长连续写作记录时通知 */
+	notifyLongestStreak: boolean;
+	/** 同时发送系统通知 */
+	useSystemNotifications: boolean;
+	/** 历史数据保留天数，0 表示永久保留 */
+	retentionDays: number;
+	/** 保留的统计数据备份数量 */
+	backupCount: number;
+	/** 导出文件保存的仓库文件夹 */
+	exportFolder: string;
+	/** 写作项目 */
+	projects: WritingProject[];
+	/** 截止日期目标 */
+	deadlineGoals: DeadlineGoal[];
+	/** 排除的文件夹 */
+	excludedFolders: string[];
+	/** 排除的文件路径通配符，如 Templates/** 或 Clippings/*.md */
+	excludedPatterns: string[];
+}
+
+/**
+ * 截止日期目标接口 - 在截止日期前完成指定字数
+ */
+export interface DeadlineGoal {
+	/** 目标ID */
+	id: string;
+	/** 目标名称 */
+	name: string;
+	/** 所属项目ID，为空表示整个仓库 */
+	projectId: string;
+	/** 目标字数 */
+	target: number;
+	/** 开始日期 YYYY-MM-DD */
+	startDate: string;
+	/** 截止日期 YYYY-MM-DD */
+	deadline: string;
+}
+
+/**
+ * 写作项目接口 - 按文件夹、标签或frontmatter属性匹配笔记
+ */
+export interface WritingProject {
+	/** 项目ID */
+	id: string;
+	/** 项目名称 */
+	name: string;
+	/** 匹配方式 */
+	matchType: 'folder' | 'tag' | 'frontmatter';
+	/** 匹配值：文件夹路径、标签或属性值（属性值留空表示只要求存在该属性） */
+	matchValue: string;
+	/** frontmatter属性名（仅frontmatter匹配时使用） */
+	propertyKey: string;
+	/** 项目每日目标字数，未设置或为0表示不设目标（有写作即算完成） */
+	dailyGoal?: number;
 }
 
 export interface ColorRange {
@@ -55,6 +158,14 @@ export interface ColorRange {
  * 默认设置配置
  */
 export const DEFAULT_SETTINGS: WordCountSettings = {
+	dailyGoal: CONSTANTS.DEFAULT_DAILY_GOAL,
+	weekdayGoals: [null, null, null, null, null, null, null],
+	weeklyGoal: 0,
+	monthlyGoal: 0,
+	weekStartDay: 1,
+	streakMinWords: 1,
+	streakRestDays: [],
+	streakFreezesPerMonth: 0,
 	enableHeatmap: true,
 	heatmapColors: ['#f0f9f0', '#10b981'], // 绿色主题：浅绿 + 翠绿
 	heatmapCellSize: 18,
@@ -74,11 +185,35 @@ export const DEFAULT_SETTINGS: WordCountSettings = {
 	heatmapMaxZoom: 3.0,
 	trackChinese: true,
 	trackEnglish: true,
+	countedScripts: ['kana', 'hangul', 'cyrillic', 'greek', 'arabic', 'hebrew', 'thai', 'devanagari', 'other'],
 	trackPunctuation: true,
 	showStatusBar: true,
-	resetWeekly: false,
 	trackNumbers: true,
 	trackSpaces: false,
 	showWordCount: true,
-	enableCache: true
+	countLinkText: true,
+	countCalloutTitles: true,
+	countFootnotes: true,
+	countTables: true,
+	countTags: false,
+	countCode: false,
+	countMath: false,
+	enableCache: true,
+	saveIntervalSeconds: 10,
+	countDeletedFiles: false,
+	countBackgroundChanges: true,
+	sessionIdleMinutes: 5,
+	dayStartHour: 0,
+	notifyDailyGoal: true,
+	notifyMilestones: true,
+	notifyBestDay: true,
+	notifyLongestStreak: true,
+	useSystemNotifications: false,
+	retentionDays: 0,
+	backupCount: 7,
+	exportFolder: '字数统计导出',
+	projects: [],
+	deadlineGoals: [],
+	excludedFolders: [],
+	excludedPatterns: []
 };
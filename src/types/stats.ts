@@ -1,17 +1,27 @@
+/**
+ * 文件修改来源
+ */
+export type ChangeSource = 'editor' | 'background';
+
 /**
  * 字符变化记录接口
+ * 各字段均为非负的变化量，方向由 action 表示
  */
 export interface CharChange {
 	/** 时间戳 */
 	timestamp: number;
 	/** 操作类型 */
 	action: 'add' | 'delete';
-	/** 文件名 */
+	/** 文件路径 */
 	fileName: string;
+	/** 变化来源：编辑器中的用户编辑或同步、脚本等后台修改 */
+	source?: ChangeSource;
 	/** 中文字符变化 */
 	chinese: number;
 	/** 英文字符变化 */
 	english: number;
+	/** 其他文字变化（旧版本记录没有此字段） */
+	other?: number;
 	/** 标点符号变化 */
 	punctuation: number;
 	/** 数字变化 */
@@ -34,6 +44,10 @@ export interface DailyStats {
 	chinese: number;
 	/** 英文字符数 */
 	english: number;
+	/** 其他文字字符数 */
+	other: number;
+	/** 按文字分类的字符数（净增量） */
+	scripts: ScriptCounts;
 	/** 标点符号数 */
 	punctuation: number;
 	/** 数字数量 */
@@ -42,16 +56,84 @@ export interface DailyStats {
 	spaces: number;
 	/** 词数 */
 	words: number;
-	/** 总字数 */
+	/** 总字数（净增量） */
 	total: number;
 	/** 当日目标 */
 	goal: number;
 	/** 是否完成目标 */
 	completed: boolean;
+	/** 新增字数（毛增量） */
+	added: CharCounts;
+	/** 删除字数（毛删减量） */
+	deleted: CharCounts;
+	/** 按文件路径记录的当日写作量 */
+	files: Record<string, FileDayStats>;
+	/** 当日写作会话 */
+	sessions: WritingSession[];
+	/** 按小时（0-23）汇总的净增字数 */
+	hourly: number[];
+	/** 按项目ID记录的当日写作量 */
+	projects: Record<string, ProjectDayStats>;
 	/** 字符变化记录 */
 	charChanges: CharChange[];
 }
 
+/**
+ * 单个文件的当日写作量接口
+ */
+export interface FileDayStats {
+	/** 净增字数 */
+	total: number;
+	/** 新增字数 */
+	added: number;
+	/** 删除字数 */
+	deleted: number;
+}
+
+/**
+ * 分类字数接口
+ */
+export interface CharCounts extends TextAnalysisResult {
+	/** 总字数 */
+	total: number;
+}
+
+/**
+ * 单个项目的当日写作量接口
+ */
+export interface ProjectDayStats extends FileDayStats {
+	/** 当日写作过的项目文件路径 */
+	files: string[];
+}
+
+/**
+ * 写作会话接口
+ */
+export interface WritingSession {
+	/** 开始时间戳（首次编辑） */
+	start: number;
+	/** 结束时间戳（最后一次编辑） */
+	end: number;
+	/** 活跃写作分钟数 */
+	activeMinutes: number;
+	/** 净增字数 */
+	words: number;
+	/** 每分钟字数 */
+	wpm: number;
+}
+
+/**
+ * 文件基线接口 - 记录文件当日首次出现时及最近一次统计时的字数，用于计算增量
+ */
+export interface FileBaseline extends CharCounts {
+	/** 基线所属日期 YYYY-MM-DD */
+	date: string;
+	/** 文件所属的项目ID，文件删除后已无法从元数据中获取 */
+	projectIds: string[];
+	/** 统计时的可见正文，用于与下次统计时比较得出新增和删除的文本 */
+	text: string;
+}
+
 /**
  * 连续写作数据接口
  */
@@ -62,16 +144,46 @@ export interface StreakData {
 	longest: number;
 	/** 最后写作日期 */
 	lastDate: string;
+	/** 本月剩余的冻结次数 */
+	freezesLeft: number;
+	/** 历次连续写作记录，最近的在前 */
+	history: StreakRecord[];
+}
+
+/**
+ * 单次连续写作记录接口
+ */
+export interface StreakRecord {
+	/** 开始日期 */
+	start: string;
+	/** 结束日期（最后一个达标日） */
+	end: string;
+	/** 达标天数 */
+	length: number;
 }
 
+/**
+ * 文字分类
+ */
+export type ScriptName = 'han' | 'kana' | 'hangul' | 'latin' | 'cyrillic' | 'greek' | 'arabic' | 'hebrew' | 'thai' | 'devanagari' | 'other';
+
+/**
+ * 按文字分类的字符数
+ */
+export type ScriptCounts = Record<ScriptName, number>;
+
 /**
  * 文本分析结果接口
  */
 export interface TextAnalysisResult {
-	/** 中文字符数 */
+	/** 中文字符数（汉字） */
 	chinese: number;
-	/** 英文字符数 */
+	/** 英文字符数（拉丁字母） */
 	english: number;
+	/** 其他计入统计的文字字符数（假名、谚文、西里尔字母等） */
+	other: number;
+	/** 按文字分类的计入统计的字符数，汉字和拉丁字母分别对应 chinese 和 english */
+	scripts: ScriptCounts;
 	/** 标点符号数 */
 	punctuation: number;
 	/** 数字数量 */
@@ -82,3 +194,178 @@ export interface TextAnalysisResult {
 	words: number;
 }
 
+/**
+ * 截止日期目标进度接口
+ */
+export interface DeadlineProgress {
+	/** 已写字数（开始日期至今天） */
+	written: number;
+	/** 剩余字数 */
+	remaining: number;
+	/** 剩余天数（含今天） */
+	daysLeft: number;
+	/** 从今天起每天需要的字数 */
+	requiredPace: number;
+	/** 按理想进度截至今天应写字数 */
+	idealToDate: number;
+	/** 与理想进度的差值，正数为超前 */
+	difference: number;
+	/** 每日累计字数，从开始日期到今天（或截止日期） */
+	cumulative: Array<{ date: string; total: number }>;
+}
+
+/**
+ * 统计数据文件结构，每个文件保存一台设备一个年份的数据
+ */
+export interface StatsFile {
+	/** 数据结构版本 */
+	schemaVersion: number;
+	/** 设备ID */
+	deviceId?: string;
+	/** 设备名称 */
+	deviceName?: string;
+	/** 每日统计数据 */
+	days: DailyStats[];
+}
+
+/**
+ * 单台设备的统计数据
+ */
+export interface DeviceStats {
+	/** 设备ID */
+	id: string;
+	/** 设备名称 */
+	name: string;
+	/** 每日统计数据 */
+	days: DailyStats[];
+}
+
+/**
+ * 隔离的无效统计记录
+ */
+export interface QuarantinedRecord {
+	/** 原始记录 */
+	record: unknown;
+	/** 无效原因 */
+	reason: string;
+	/** 隔离时间 */
+	quarantinedAt: number;
+}
+
+/**
+ * 备份原因：每日自动备份、重置前、导入前、恢复前
+ */
+export type BackupReason = 'daily' | 'reset' | 'import' | 'restore';
+
+/**
+ * 备份信息
+ */
+export interface BackupInfo {
+	/** 备份文件路径 */
+	path: string;
+	/** 备份时间 */
+	createdAt: number;
+	/** 备份原因 */
+	reason: BackupReason;
+	/** 记录天数 */
+	count: number;
+}
+
+/**
+ * 导入方式：替换、按天取较大值合并、按天求和合并
+ */
+export type ImportMode = 'replace' | 'max' | 'sum';
+
+/**
+ * 解析后的导入数据
+ */
+export interface ImportData {
+	/** 数据来源说明 */
+	source: string;
+	/** 通过校验的每日统计数据 */
+	records: DailyStats[];
+	/** 未通过校验的记录 */
+	invalid: Array<{ record: unknown; reason: string }>;
+	/** 文件中包含的设置，没有时为 null */
+	settings: Record<string, unknown> | null;
+	/** 导出该数据的设备ID，不是本插件导出的完整备份时为 null */
+	deviceId: string | null;
+}
+
+/**
+ * 导入预览：按日期列出与本设备现有数据的差异
+ */
+export interface ImportDiff {
+	/** 现有数据中没有的日期 */
+	added: string[];
+	/** 导入数据在各项上都不少于现有数据的日期 */
+	changed: string[];
+	/** 导入数据与现有数据互有多少的日期 */
+	conflicting: string[];
+	/** 与现有数据相同的日期 */
+	unchanged: string[];
+}
+
+/**
+ * 导出格式
+ */
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'markdown';
+
+/**
+ * 导出粒度：按天、按周、按月汇总
+ */
+export type ExportGranularity = 'day' | 'week' | 'month';
+
+/**
+ * 导出选项
+ */
+export interface ExportOptions {
+	/** 开始日期 YYYY-MM-DD（含） */
+	startDate: string;
+	/** 结束日期 YYYY-MM-DD（含） */
+	endDate: string;
+	/** 汇总粒度 */
+	granularity: ExportGranularity;
+	/** 导出的列 */
+	columns: string[];
+	/** 导出格式 */
+	format: ExportFormat;
+}
+
+/**
+ * 导出列定义
+ */
+export interface ExportColumn {
+	/** 列键，用作JSON字段名 */
+	key: string;
+	/** 列标题 */
+	label: string;
+	/** 取值，按周或按月导出时求和 */
+	value: (stats: DailyStats) => number;
+}
+
+/**
+ * CSV导入的列映射，值为列序号，-1 表示不导入
+ */
+export interface CsvColumnMapping {
+	/** 日期列 */
+	date: number;
+	/** 净增字数列 */
+	total: number;
+	/** 新增字数列 */
+	added: number;
+	/** 删除字数列 */
+	deleted: number;
+	/** 词数列 */
+	words: number;
+}
+
+/**
+ * 可导入的其他插件数据文件
+ */
+export interface PluginDataSource {
+	/** 显示名称 */
+	name: string;
+	/** 文件路径（相对仓库） */
+	path: string;
+}
@@ -0,0 +1,54 @@
+/**
+ * 备份恢复模态框 - 列出统计数据备份并选择恢复
+ */
+
+import { App, Modal } from 'obsidian';
+import { BackupInfo, BackupReason } from '../types';
+import { formatDateString, formatTime } from '../utils';
+
+const REASON_LABELS: Record<BackupReason, string> = {
+	daily: '每日备份',
+	reset: '重置前',
+	import: '导入前',
+	restore: '恢复前'
+};
+
+export class BackupRestoreModal extends Modal {
+	constructor(
+		app: App,
+		private backups: BackupInfo[],
+		private onRestore: (backup: BackupInfo) => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('word-count-backup-modal');
+		contentEl.createEl('h2', { text: '从备份恢复' });
+		contentEl.createEl('p', {
+			text: '恢复会替换本设备的全部统计数据，恢复前会自动备份当前数据',
+			cls: 'word-count-backup-desc'
+		});
+
+		const list = contentEl.createEl('ul', { cls: 'word-count-backup-list' });
+		this.backups.forEach(backup => {
+			const item = list.createEl('li', { cls: 'word-count-backup-item' });
+			const date = new Date(backup.createdAt);
+			const info = item.createDiv({ cls: 'word-count-backup-info' });
+			info.createSpan({ text: `${formatDateString(date)} ${formatTime(backup.createdAt)}`, cls: 'word-count-backup-date' });
+			info.createSpan({ text: `${REASON_LABELS[backup.reason]} · ${backup.count} 天`, cls: 'word-count-backup-meta' });
+
+			const button = item.createEl('button', { text: '恢复' });
+			button.addEventListener('click', () => {
+				this.close();
+				this.onRestore(backup);
+			});
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,62 @@
+/**
+ * 燃尽（燃起）图组件 - 对比实际累计字数与理想进度
+ */
+
+import { DeadlineGoal, DeadlineProgress } from '../types';
+import { getDaysDifference } from '../utils';
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const PADDING = 4;
+
+export class BurnUpChartComponent {
+	constructor(
+		private container: HTMLElement,
+		private goal: DeadlineGoal,
+		private progress: DeadlineProgress
+	) {}
+
+	/**
+	 * 渲染图表
+	 */
+	public render(): void {
+		const totalDays = Math.max(getDaysDifference(this.goal.startDate, this.goal.deadline) + 1, 1);
+		const maxValue = Math.max(
+			this.goal.target,
+			...this.progress.cumulative.map(point => point.total),
+			1
+		);
+
+		const x = (dayIndex: number) => PADDING + ((CHART_WIDTH - PADDING * 2) * dayIndex) / Math.max(totalDays - 1, 1);
+		const y = (value: number) => CHART_HEIGHT - PADDING - ((CHART_HEIGHT - PADDING * 2) * Math.max(value, 0)) / maxValue;
+
+		const svg = this.container.createSvg('svg', {
+			cls: 'burnup-chart',
+			attr: {
+				viewBox: `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`,
+				preserveAspectRatio: 'none'
+			}
+		});
+
+		// 理想进度：从开始日期的 0 到截止日期的目标字数
+		svg.createSvg('line', {
+			cls: 'burnup-ideal',
+			attr: { x1: x(0), y1: y(0), x2: x(totalDays - 1), y2: y(this.goal.target) }
+		});
+
+		// 实际累计字数
+		if (this.progress.cumulative.length > 0) {
+			const points = this.progress.cumulative
+				.map((point, index) => `${x(index)},${y(point.total)}`)
+				.join(' ');
+			svg.createSvg('polyline', {
+				cls: 'burnup-actual',
+				attr: { points }
+			});
+		}
+
+		const legend = this.container.createDiv({ cls: 'burnup-legend' });
+		legend.createSpan({ cls: 'burnup-legend-actual', text: '实际累计' });
+		legend.createSpan({ cls: 'burnup-legend-ideal', text: '理想进度' });
+	}
+}
@@ -0,0 +1,113 @@
+/**
+ * 写作时间分布图组件 - 按小时和星期汇总写作量
+ */
+
+import { WordCountSettings } from '../types';
+import { DailyStats } from '../types/stats';
+import { formatNumber, addDays, getTodayString, parseDateString } from '../utils';
+
+const WEEKDAY_LABELS = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
+
+const RANGE_OPTIONS: Array<{ days: number; label: string }> = [
+	{ days: 7, label: '最近7天' },
+	{ days: 30, label: '最近30天' },
+	{ days: 90, label: '最近90天' },
+	{ days: 0, label: '全部' }
+];
+
+export class DistributionChartComponent {
+	private rangeDays = 30;
+	private chartsEl: HTMLElement | null = null;
+
+	constructor(
+		private container: HTMLElement,
+		private dailyStats: Map<string, DailyStats>,
+		private settings: WordCountSettings
+	) {}
+
+	/**
+	 * 渲染分布图
+	 */
+	public render(): void {
+		const section = this.container.createDiv({ cls: 'word-count-stats word-count-distribution' });
+		const header = section.createDiv({ cls: 'distribution-header' });
+		header.createEl('h3', { text: '写作时间分布' });
+
+		const select = header.createEl('select', { cls: 'dropdown' });
+		RANGE_OPTIONS.forEach(option => {
+			select.createEl('option', { text: option.label, value: option.days.toString() });
+		});
+		select.value = this.rangeDays.toString();
+		select.onchange = () => {
+			this.rangeDays = parseInt(select.value) || 0;
+			this.renderCharts();
+		};
+
+		this.chartsEl = section.createDiv({ cls: 'distribution-charts' });
+		this.renderCharts();
+	}
+
+	/**
+	 * 渲染两个柱状图
+	 */
+	private renderCharts(): void {
+		if (!this.chartsEl) return;
+		this.chartsEl.empty();
+
+		const { hourly, weekday } = this.aggregate();
+
+		this.renderBarChart(
+			this.chartsEl,
+			'按小时',
+			hourly,
+			hourly.map((_, hour) => (hour % 6 === 0 ? `${hour}` : '')),
+			hourly.map((_, hour) => `${hour}:00–${hour}:59`)
+		);
+		this.renderBarChart(this.chartsEl, '按星期', weekday, WEEKDAY_LABELS, WEEKDAY_LABELS);
+	}
+
+	/**
+	 * 汇总所选范围内的小时与星期分布
+	 */
+	private aggregate(): { hourly: number[]; weekday: number[] } {
+		const hourly: number[] = new Array(24).fill(0);
+		const weekday: number[] = new Array(7).fill(0);
+
+		let startDate = '';
+		if (this.rangeDays > 0) {
+			startDate = addDays(getTodayString(this.settings.dayStartHour), -this.rangeDays + 1);
+		}
+
+		for (const stats of this.dailyStats.values()) {
+			if (stats.date < startDate) continue;
+
+			stats.hourly.forEach((value, hour) => {
+				hourly[hour] += value;
+			});
+
+			// 周一为 0
+			const day = parseDateString(stats.date).getDay();
+			weekday[(day + 6) % 7] += stats.total;
+		}
+
+		return { hourly, weekday };
+	}
+
+	/**
+	 * 渲染柱状图，负值按 0 显示
+	 */
+	private renderBarChart(container: HTMLElement, title: string, values: number[], labels: string[], tooltips: string[]): void {
+		const chart = container.createDiv({ cls: 'distribution-chart' });
+		chart.createEl('h4', { text: title });
+
+		const max = Math.max(...values, 1);
+		const bars = chart.createDiv({ cls: 'distribution-bars' });
+		values.forEach((value, index) => {
+			const column = bars.createDiv({ cls: 'distribution-column' });
+			const bar = column.createDiv({ cls: 'distribution-bar' });
+			bar.style.height = `${(Math.max(value, 0) / max) * 100}%`;
+			column.setAttribute('title', `${tooltips[index]}: ${formatNumber(value)} 字`);
+			column.createDiv({ cls: 'distribution-label', text: labels[index] });
+		});
+	}
+}
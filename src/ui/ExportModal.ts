@@ -0,0 +1,170 @@
+/**
+ * 导出模态框 - 选择日期范围、粒度、列和格式
+ */
+
+import { App, Modal, Notice, Platform, Setting } from 'obsidian';
+import { ExportFormat, ExportGranularity, ExportOptions, WordCountSettings } from '../types';
+import { EXPORT_COLUMNS, DEFAULT_EXPORT_COLUMNS } from '../services';
+import { getTodayString, validateDateString } from '../utils';
+
+/** 导出位置：下载到电脑或保存到仓库文件夹 */
+export type ExportDestination = 'download' | 'vault';
+
+export class ExportModal extends Modal {
+	private options: ExportOptions;
+	private destination: ExportDestination = Platform.isMobile ? 'vault' : 'download';
+	private folder: string;
+
+	constructor(
+		app: App,
+		settings: WordCountSettings,
+		startDate: string,
+		private onExport: (options: ExportOptions, destination: ExportDestination, folder: string) => Promise<void>
+	) {
+		super(app);
+		this.folder = settings.exportFolder;
+		this.options = {
+			startDate,
+			endDate: getTodayString(settings.dayStartHour),
+			granularity: 'day',
+			columns: [...DEFAULT_EXPORT_COLUMNS],
+			format: 'csv'
+		};
+	}
+
+	onOpen() {
+		this.contentEl.addClass('word-count-export-modal');
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * 渲染导出选项
+	 */
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: '导出统计表格' });
+
+		new Setting(contentEl)
+			.setName('日期范围')
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.setValue(this.options.startDate).onChange(value => {
+					this.options.startDate = value;
+				});
+			})
+			.addText(text => {
+				text.inputEl.type = 'date';
+				text.setValue(this.options.endDate).onChange(value => {
+					this.options.endDate = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('粒度')
+			.addDropdown(dropdown => dropdown
+				.addOption('day', '按天')
+				.addOption('week', '按周')
+				.addOption('month', '按月')
+				.setValue(this.options.granularity)
+				.onChange(value => {
+					this.options.granularity = value as ExportGranularity;
+				}));
+
+		const columnSetting = new Setting(contentEl)
+			.setName('列')
+			.setDesc('按周或按月导出时各列为时段内的合计');
+		const columnContainer = columnSetting.controlEl.createDiv({ cls: 'word-count-export-columns' });
+		EXPORT_COLUMNS.forEach(column => {
+			const label = columnContainer.createEl('label', { cls: 'word-count-export-column' });
+			const checkbox = label.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.options.columns.includes(column.key);
+			label.appendText(column.label);
+			checkbox.onchange = () => {
+				this.options.columns = EXPORT_COLUMNS
+					.map(item => item.key)
+					.filter(key => key === column.key ? checkbox.checked : this.options.columns.includes(key));
+			};
+		});
+
+		new Setting(contentEl)
+			.setName('格式')
+			.setDesc('Markdown表格会作为笔记保存到仓库文件夹')
+			.addDropdown(dropdown => dropdown
+				.addOption('csv', 'CSV')
+				.addOption('tsv', 'TSV')
+				.addOption('json', 'JSON')
+				.addOption('markdown', 'Markdown表格')
+				.setValue(this.options.format)
+				.onChange(value => {
+					this.options.format = value as ExportFormat;
+					this.render();
+				}));
+
+		// 移动端无法下载文件，Markdown表格总是保存为笔记
+		const canDownload = !Platform.isMobile && this.options.format !== 'markdown';
+		if (canDownload) {
+			new Setting(contentEl)
+				.setName('保存位置')
+				.addDropdown(dropdown => dropdown
+					.addOption('download', '下载到电脑')
+					.addOption('vault', '保存到仓库文件夹')
+					.setValue(this.destination)
+					.onChange(value => {
+						this.destination = value as ExportDestination;
+						this.render();
+					}));
+		}
+
+		if (!canDownload || this.destination === 'vault') {
+			new Setting(contentEl)
+				.setName('仓库文件夹')
+				.addText(text => text
+					.setPlaceholder('仓库根目录')
+					.setValue(this.folder)
+					.onChange(value => {
+						this.folder = value.trim();
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('导出')
+				.setCta()
+				.onClick(() => this.submit(canDownload ? this.destination : 'vault')))
+			.addButton(button => button
+				.setButtonText('取消')
+				.onClick(() => this.close()));
+	}
+
+	/**
+	 * 校验选项并导出
+	 */
+	private async submit(destination: ExportDestination) {
+		const { startDate, endDate, columns } = this.options;
+		if (!validateDateString(startDate).isValid || !validateDateString(endDate).isValid) {
+			new Notice('请输入有效的日期范围');
+			return;
+		}
+		if (startDate > endDate) {
+			new Notice('开始日期不能晚于结束日期');
+			return;
+		}
+		if (columns.length === 0) {
+			new Notice('请至少选择一列');
+			return;
+		}
+
+		try {
+			await this.onExport({ ...this.options }, destination, this.folder);
+			this.close();
+		} catch (error) {
+			console.error('导出统计表格失败:', error);
+			new Notice('导出统计表格失败，请查看控制台获取详细信息');
+		}
+	}
+}
@@ -0,0 +1,66 @@
+/**
+ * 文件明细组件 - 列出当日写作过的文件及各自字数
+ */
+
+import { App } from 'obsidian';
+import { FileDayStats } from '../types/stats';
+import { formatNumber } from '../utils';
+
+export class FileBreakdownComponent {
+	constructor(
+		private app: App,
+		private container: HTMLElement,
+		private files: Record<string, FileDayStats>,
+		private onFileOpen?: () => void
+	) {}
+
+	/**
+	 * 渲染文件列表，按净增字数降序排列
+	 */
+	public render(): void {
+		const section = this.container.createDiv({ cls: 'word-count-files' });
+		section.createEl('h4', { text: '文件' });
+
+		const entries = Object.entries(this.files).sort((a, b) => b[1].total - a[1].total);
+		if (entries.length === 0) {
+			section.createEl('p', { text: '暂无文件记录' });
+			return;
+		}
+
+		const list = section.createEl('ul', { cls: 'word-count-file-list' });
+		entries.forEach(([path, stats]) => {
+			const item = list.createEl('li', { cls: 'word-count-file-item' });
+			const link = item.createEl('a', {
+				text: this.getDisplayName(path),
+				cls: 'word-count-file-link',
+				attr: { title: path }
+			});
+			link.addEventListener('click', (e) => {
+				e.preventDefault();
+				this.openFile(path);
+			});
+			item.createSpan({
+				text: `${formatNumber(stats.total)} (+${formatNumber(stats.added)} / −${formatNumber(stats.deleted)})`,
+				cls: 'word-count-file-count'
+			});
+		});
+	}
+
+	/**
+	 * 获取显示用的文件名（去掉扩展名）
+	 */
+	private getDisplayName(path: string): string {
+		const name = path.split('/').pop() || path;
+		return name.replace(/\.md$/, '');
+	}
+
+	/**
+	 * 打开文件
+	 */
+	private openFile(path: string): void {
+		this.app.workspace.openLinkText(path, '', false);
+		if (this.onFileOpen) {
+			this.onFileOpen();
+		}
+	}
+}
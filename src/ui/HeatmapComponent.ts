@@ -5,11 +5,15 @@
 import { App, Notice } from 'obsidian';
 import { WordCountSettings } from '../types';
 import { DailyStats } from '../types/stats';
-import { formatNumber, calculatePercentage } from '../utils';
+import { formatNumber, formatScriptCounts, calculatePercentage, addDays, getTodayString, parseDateString, getWeekStartString } from '../utils';
+import { FileBreakdownComponent } from './FileBreakdownComponent';
 
 export interface HeatmapData {
 	date: string;
 	wordCount: number;
+	added: number;
+	deleted: number;
+	goal: number;
 	completed: boolean;
 }
 
@@ -22,17 +26,26 @@ export class HeatmapComponent {
 	private currentZoom: number;
 	private zoomContainer: HTMLElement | null = null;
 	private hideControlsTimer: number | null = null;
+	private onFileOpen?: () => void;
+	private projectSource?: (projectId: string) => Map<string, DailyStats>;
+	private projectId: string;
 
 	constructor(
 		app: App,
 		settings: WordCountSettings,
 		dailyStats: Map<string, DailyStats>,
-		container: HTMLElement
+		container: HTMLElement,
+		onFileOpen?: () => void,
+		projectSource?: (projectId: string) => Map<string, DailyStats>,
+		projectId = ''
 	) {
 		this.app = app;
 		this.settings = settings;
 		this.dailyStats = dailyStats;
 		this.container = container;
+		this.onFileOpen = onFileOpen;
+		this.projectSource = projectSource;
+		this.projectId = projectId;
 		this.currentDays = 30; // 固定显示最近30天
 		this.currentZoom = this.settings.heatmapDefaultZoom || 1.0;
 		
@@ -85,11 +98,24 @@ export class HeatmapComponent {
 	}
 
 	/**
-	 * 创建控制面板 - 已移除时间范围选择器
+	 * 创建控制面板 - 仅包含项目切换器，时间范围固定为30天
 	 */
 	private createControls(): void {
-		// 不再创建控制面板，直接使用默认30天
-		console.log('使用默认30天显示，无需控制面板');
+		const projectSource = this.projectSource;
+		if (!projectSource || this.settings.projects.length === 0) return;
+
+		const controls = this.container.createDiv({ cls: 'heatmap-controls' });
+		const select = controls.createEl('select', { cls: 'dropdown' });
+		select.createEl('option', { text: '整个仓库', value: '' });
+		this.settings.projects.forEach(project => {
+			select.createEl('option', { text: project.name, value: project.id });
+		});
+		select.value = this.projectId;
+		select.onchange = () => {
+			this.projectId = select.value;
+			this.container.querySelector('.heatmap-day-details')?.remove();
+			this.updateData(projectSource(this.projectId));
+		};
 	}
 
 	/**
@@ -342,6 +368,12 @@ export class HeatmapComponent {
 				cell.classList.add('completed');
 			}
 			
+			// 目标进度条
+			if (data.goal > 0) {
+				const progress = cell.createDiv({ cls: 'heatmap-cell-progress' });
+				progress.style.width = `${Math.min(Math.max(data.wordCount, 0) / data.goal, 1) * 100}%`;
+			}
+			
 			// 设置工具提示
 			cell.setAttribute('title', this.getTooltipText(data));
 			
@@ -372,6 +404,17 @@ export class HeatmapComponent {
 		const averageWords = this.currentDays > 0 ? Math.round(totalWords / this.currentDays) : 0;
 		const completionRate = this.currentDays > 0 ? calculatePercentage(completedDays, this.currentDays) : '0%';
 
+		// 本周写作量与周目标完成度
+		const today = getTodayString(this.settings.dayStartHour);
+		const weekStart = getWeekStartString(today, this.settings.weekStartDay);
+		const weekTotal = Array.from(this.dailyStats.values())
+			.filter(stats => stats.date >= weekStart && stats.date <= today)
+			.reduce((sum, stats) => sum + stats.total, 0);
+		const weeklyLabel = this.settings.weeklyGoal > 0 ? '本周完成' : '本周字数';
+		const weeklyValue = this.settings.weeklyGoal > 0
+			? calculatePercentage(Math.max(weekTotal, 0), this.settings.weeklyGoal, 0)
+			: formatNumber(weekTotal);
+
 		statsContainer.innerHTML = `
 			<div class="stat-item">
 				<span class="stat-label">完成率</span>
@@ -389,6 +432,10 @@ export class HeatmapComponent {
 				<span class="stat-label">总字数</span>
 				<span class="stat-value">${formatNumber(totalWords)}</span>
 			</div>
+			<div class="stat-item">
+				<span class="stat-label">${weeklyLabel}</span>
+				<span class="stat-value">${weeklyValue}</span>
+			</div>
 		`;
 	}
 
@@ -397,21 +444,17 @@ export class HeatmapComponent {
 	 */
 	private generateHeatmapData(): HeatmapData[] {
 		const data: HeatmapData[] = [];
-		const today = new Date();
-		const startDate = new Date(today);
-		startDate.setDate(today.getDate() - this.currentDays + 1);
+		const today = getTodayString(this.settings.dayStartHour);
+		const startDate = addDays(today, -this.currentDays + 1);
 
 		console.log(`生成热力图数据，范围: ${this.currentDays} 天`);
-		console.log(`开始日期: ${startDate.toISOString().split('T')[0]}`);
-		console.log(`结束日期: ${today.toISOString().split('T')[0]}`);
+		console.log(`开始日期: ${startDate}`);
+		console.log(`结束日期: ${today}`);
 		console.log(`统计数据总量: ${this.dailyStats.size}`);
 		console.log(`统计数据示例:`, Array.from(this.dailyStats.entries()).slice(0, 3));
 
 		for (let i = 0; i < this.currentDays; i++) {
-			const currentDate = new Date(startDate);
-			currentDate.setDate(startDate.getDate() + i);
-			const dateString = currentDate.toISOString().split('T')[0];
-			
+			const dateString = addDays(startDate, i);
 			const dayStats = this.dailyStats.get(dateString);
 			const wordCount = dayStats?.total || 0;
 			const completed = dayStats?.completed || false;
@@ -419,6 +462,9 @@ export class HeatmapComponent {
 			data.push({
 				date: dateString,
 				wordCount,
+				added: dayStats?.added.total || 0,
+				deleted: dayStats?.deleted.total || 0,
+				goal: dayStats?.goal || 0,
 				completed
 			});
 		}
@@ -428,7 +474,7 @@ export class HeatmapComponent {
 		
 		// 如果所有数据都是0，创建一些测试数据
 		const hasData = data.some(d => d.wordCount > 0);
-		if (!hasData && this.dailyStats.size === 0) {
+		if (!hasData && this.dailyStats.size === 0 && !this.projectId) {
 			console.log('没有实际数据，将显示测试数据');
 			return this.generateTestData();
 		}
@@ -442,13 +488,15 @@ export class HeatmapComponent {
 	private generateTestData(): HeatmapData[] {
 		const testData: HeatmapData[] = [];
 		for (let i = 0; i < this.currentDays; i++) {
-			const date = new Date();
-			date.setDate(date.getDate() - this.currentDays + i + 1);
+			const date = addDays(getTodayString(this.settings.dayStartHour), -this.currentDays + i + 1);
 			const wordCount = Math.floor(Math.random() * 1000);
 			const completed = wordCount > 0; // 只要有字数就算完成
 			testData.push({
-				date: date.toISOString().split('T')[0],
+				date,
 				wordCount,
+				added: wordCount,
+				deleted: 0,
+				goal: 0,
 				completed
 			});
 		}
@@ -487,7 +535,7 @@ export class HeatmapComponent {
 	 * 获取工具提示文本
 	 */
 	private getTooltipText(data: HeatmapData): string {
-		const date = new Date(data.date);
+		const date = parseDateString(data.date);
 		const dateStr = date.toLocaleDateString('zh-CN', {
 			year: 'numeric',
 			month: 'long',
@@ -498,7 +546,11 @@ export class HeatmapComponent {
 		// 获取对应的区间标签
 		const rangeLabel = this.getRangeLabel(data.wordCount);
 		
-		return `${dateStr}\n字数: ${formatNumber(data.wordCount)}\n区间: ${rangeLabel}`;
+		const goalText = data.goal > 0
+			? `\n目标: ${formatNumber(data.goal)} (${calculatePercentage(Math.max(data.wordCount, 0), data.goal, 0)})`
+			: '';
+		
+		return `${dateStr}\n净增: ${formatNumber(data.wordCount)}\n新增: +${formatNumber(data.added)}\n删除: −${formatNumber(data.deleted)}${goalText}\n区间: ${rangeLabel}`;
 	}
 
 	/**
@@ -538,21 +590,33 @@ export class HeatmapComponent {
 			return;
 		}
 
-		const totalChars = dayStats.chinese + dayStats.english + dayStats.punctuation + dayStats.numbers;
-		const message = `
-${data.date} 写作详情：
-总字数: ${formatNumber(dayStats.total)}
-中文字符: ${formatNumber(dayStats.chinese)}
-英文字符: ${formatNumber(dayStats.english)}
-标点符号: ${formatNumber(dayStats.punctuation)}
-数字: ${formatNumber(dayStats.numbers)}
-空格: ${formatNumber(dayStats.spaces)}
-词数: ${formatNumber(dayStats.words)}
-总字符数: ${formatNumber(totalChars)}
-		状态: ${dayStats.completed ? '✅ 已完成' : '❌ 未完成'}
-		`.trim();
-
-		new Notice(message);
+		// 详情面板位于热力图下方，重复点击时替换内容
+		this.container.querySelector('.heatmap-day-details')?.remove();
+		const detailsPanel = this.container.createDiv({ cls: 'heatmap-day-details' });
+
+		const totalChars = dayStats.chinese + dayStats.english + dayStats.other + dayStats.punctuation + dayStats.numbers;
+		const scriptText = formatScriptCounts(dayStats.scripts);
+		detailsPanel.createEl('h4', { text: `${data.date} 写作详情` });
+		[
+			`净增字数: ${formatNumber(dayStats.total)}`,
+			`新增字数: +${formatNumber(dayStats.added.total)}`,
+			`删除字数: −${formatNumber(dayStats.deleted.total)}`,
+			`中文字符: ${formatNumber(dayStats.chinese)}`,
+			`英文字符: ${formatNumber(dayStats.english)}`,
+			`其他文字: ${formatNumber(dayStats.other)}`,
+			...(scriptText ? [`按文字统计: ${scriptText}`] : []),
+			`标点符号: ${formatNumber(dayStats.punctuation)}`,
+			`数字: ${formatNumber(dayStats.numbers)}`,
+			`空格: ${formatNumber(dayStats.spaces)}`,
+			`词数: ${formatNumber(dayStats.words)}`,
+			`总字符数: ${formatNumber(totalChars)}`,
+			dayStats.goal > 0
+				? `目标: ${formatNumber(dayStats.goal)} (${calculatePercentage(Math.max(dayStats.total, 0), dayStats.goal, 0)})`
+				: '目标: 未设置',
+			`状态: ${dayStats.completed ? '✅ 已完成' : '❌ 未完成'}`
+		].forEach(line => detailsPanel.createEl('p', { text: line }));
+
+		new FileBreakdownComponent(this.app, detailsPanel, dayStats.files, this.onFileOpen).render();
 	}
 
 	/**
@@ -0,0 +1,311 @@
+/**
+ * 导入模态框 - 选择文件、预览差异并选择导入方式
+ */
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { ImportData, ImportDiff, ImportMode, CsvColumnMapping } from '../types';
+import { ImportService, StatsManager } from '../services';
+
+/** 预览中每类最多列出的日期数 */
+const MAX_PREVIEW_DATES = 30;
+
+/** CSV列映射的目标字段 */
+const CSV_FIELDS: Array<{ key: keyof CsvColumnMapping; name: string; required: boolean }> = [
+	{ key: 'date', name: '日期', required: true },
+	{ key: 'total', name: '净增字数', required: false },
+	{ key: 'added', name: '新增字数', required: false },
+	{ key: 'deleted', name: '删除字数', required: false },
+	{ key: 'words', name: '词数', required: false }
+];
+
+export class ImportModal extends Modal {
+	constructor(
+		app: App,
+		private importService: ImportService,
+		private statsManager: StatsManager,
+		private ownPluginId: string,
+		private onImported: (data: ImportData, mode: ImportMode) => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		this.contentEl.addClass('word-count-import-modal');
+		this.renderSource();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * 第一步：选择导入文件
+	 */
+	private renderSource() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: '导入统计数据' });
+		contentEl.createEl('p', {
+			text: '可导入本插件导出的完整备份、其他字数统计插件的数据或CSV文件，导入前会先预览差异',
+			cls: 'word-count-import-desc'
+		});
+
+		const jsonFiles = this.app.vault.getFiles()
+			.filter(file => ['json', 'csv', 'tsv'].includes(file.extension))
+			.sort((a, b) => a.path.localeCompare(b.path));
+		let selectedPath = jsonFiles[0]?.path || '';
+
+		new Setting(contentEl)
+			.setName('仓库中的文件')
+			.addDropdown(dropdown => {
+				if (jsonFiles.length === 0) {
+					dropdown.addOption('', '仓库中没有JSON或CSV文件');
+				}
+				jsonFiles.forEach(file => dropdown.addOption(file.path, file.path));
+				dropdown.setValue(selectedPath).onChange(value => {
+					selectedPath = value;
+				});
+			})
+			.addButton(button => button
+				.setButtonText('读取')
+				.setDisabled(jsonFiles.length === 0)
+				.onClick(async () => {
+					const file = jsonFiles.find(item => item.path === selectedPath);
+					if (!file) return;
+					try {
+						this.loadContent(await this.app.vault.read(file), file.path);
+					} catch (error) {
+						console.error('读取导入文件失败:', error);
+						new Notice(`无法导入: ${error instanceof Error ? error.message : error}`);
+					}
+				}));
+
+		new Setting(contentEl)
+			.setName('电脑中的文件')
+			.addButton(button => button
+				.setButtonText('选择文件…')
+				.onClick(() => {
+					const input = document.createElement('input');
+					input.type = 'file';
+					input.accept = '.json,.csv,.tsv';
+					input.onchange = async () => {
+						const file = input.files?.[0];
+						if (!file) return;
+						try {
+							this.loadContent(await file.text(), file.name);
+						} catch (error) {
+							console.error('读取导入文件失败:', error);
+							new Notice(`无法导入: ${error instanceof Error ? error.message : error}`);
+						}
+					};
+					input.click();
+				}));
+
+		const pluginSetting = new Setting(contentEl)
+			.setName('其他插件的数据')
+			.setDesc('正在查找其他字数统计插件的历史数据…');
+		this.importService.findPluginSources(this.ownPluginId).then(sources => {
+			if (sources.length === 0) {
+				pluginSetting.setDesc('没有找到包含每日字数历史的插件数据');
+				return;
+			}
+			pluginSetting.setDesc('从其他插件的数据文件中读取每日字数历史');
+			let selected = sources[0];
+			pluginSetting
+				.addDropdown(dropdown => {
+					sources.forEach((source, index) => dropdown.addOption(String(index), source.name));
+					dropdown.onChange(value => {
+						selected = sources[Number(value)];
+					});
+				})
+				.addButton(button => button
+					.setButtonText('读取')
+					.onClick(async () => {
+						try {
+							const data = await this.importService.readPluginSource(selected);
+							this.renderPreview(data, this.statsManager.previewImport(data.records));
+						} catch (error) {
+							console.error('读取插件数据失败:', error);
+							new Notice(`无法导入: ${error instanceof Error ? error.message : error}`);
+						}
+					}));
+		}).catch(error => {
+			console.error('查找插件数据失败:', error);
+			pluginSetting.setDesc('查找插件数据失败');
+		});
+	}
+
+	/**
+	 * 解析文件内容并进入预览
+	 */
+	private loadContent(content: string, source: string) {
+		if (/\.(csv|tsv)$/i.test(source)) {
+			const rows = this.importService.parseCsv(content);
+			if (rows.length < 2) {
+				new Notice('CSV文件中没有数据');
+				return;
+			}
+			this.renderCsvMapping(rows, source);
+			return;
+		}
+
+		try {
+			const data = this.importService.parse(content, source);
+			if (data.records.length === 0 && data.invalid.length === 0) {
+				new Notice('文件中没有统计数据');
+				return;
+			}
+			this.renderPreview(data, this.statsManager.previewImport(data.records));
+		} catch (error) {
+			console.error('解析导入文件失败:', error);
+			new Notice(`无法导入: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	/**
+	 * CSV导入：选择各字段对应的列
+	 */
+	private renderCsvMapping(rows: string[][], source: string) {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'CSV列映射' });
+		contentEl.createEl('p', {
+			text: `${source} · ${rows.length - 1} 行。未提供新增和删除字数时，净增为正计为新增，为负计为删除`,
+			cls: 'word-count-import-desc'
+		});
+
+		const headers = rows[0];
+		const mapping = this.importService.guessCsvMapping(headers);
+		CSV_FIELDS.forEach(field => {
+			new Setting(contentEl)
+				.setName(field.name)
+				.addDropdown(dropdown => {
+					if (!field.required) {
+						dropdown.addOption('-1', '不导入');
+					}
+					headers.forEach((header, index) => {
+						dropdown.addOption(String(index), `${header || `第 ${index + 1} 列`}（如 ${rows[1][index] ?? ''}）`);
+					});
+					dropdown.setValue(String(mapping[field.key] >= 0 ? mapping[field.key] : field.required ? 0 : -1))
+						.onChange(value => {
+							mapping[field.key] = Number(value);
+						});
+					mapping[field.key] = Number(dropdown.getValue());
+				});
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('下一步')
+				.setCta()
+				.onClick(() => {
+					if (mapping.total < 0 && mapping.added < 0 && mapping.deleted < 0) {
+						new Notice('请至少选择净增、新增或删除字数中的一列');
+						return;
+					}
+					const data = this.importService.fromCsv(rows, mapping, source);
+					this.renderPreview(data, this.statsManager.previewImport(data.records));
+				}))
+			.addButton(button => button
+				.setButtonText('返回')
+				.onClick(() => this.renderSource()));
+	}
+
+	/**
+	 * 第二步：预览差异并选择导入方式
+	 */
+	private renderPreview(data: ImportData, diff: ImportDiff) {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: '导入预览' });
+		contentEl.createEl('p', {
+			text: `${data.source} · 有效 ${data.records.length} 天${data.invalid.length > 0 ? ` · 无效 ${data.invalid.length} 条（将被跳过）` : ''}`,
+			cls: 'word-count-import-desc'
+		});
+
+		// 其他设备的数据已通过同步计入统计，导入到本设备会重复计算
+		const otherDevice = data.deviceId ? this.statsManager.getOtherDeviceName(data.deviceId) : null;
+		if (otherDevice) {
+			contentEl.createEl('p', {
+				text: `该文件由设备“${otherDevice}”导出，其数据已通过同步计入统计，导入到本设备会重复计算`,
+				cls: 'word-count-import-warning'
+			});
+		}
+
+		this.renderDateGroup(contentEl, '新增', '本设备没有这些日期的数据', diff.added);
+		this.renderDateGroup(contentEl, '变化', '导入数据在各项上都不少于现有数据', diff.changed);
+		this.renderDateGroup(contentEl, '冲突', '导入数据与现有数据互有多少', diff.conflicting);
+		this.renderDateGroup(contentEl, '相同', '与现有数据一致', diff.unchanged);
+
+		if (data.invalid.length > 0) {
+			const details = contentEl.createEl('details', { cls: 'word-count-import-group' });
+			details.createEl('summary', { text: `无效记录 ${data.invalid.length} 条` });
+			const list = details.createEl('ul');
+			data.invalid.slice(0, MAX_PREVIEW_DATES).forEach(item => {
+				list.createEl('li', { text: item.reason });
+			});
+		}
+
+		if (data.records.length === 0) {
+			new Setting(contentEl).addButton(button => button
+				.setButtonText('返回')
+				.onClick(() => this.renderSource()));
+			return;
+		}
+
+		new Setting(contentEl)
+			.setName('导入方式')
+			.setDesc('替换：用导入数据替换本设备的全部数据；取较大值：同一天保留净增字数较多的一份；求和：同一天两份相加。导入前会自动备份')
+			.setHeading();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('替换')
+				.setWarning()
+				.onClick(() => {
+					const confirmed = confirm(`本设备现有的 ${this.statsManager.getDeviceStats()[0].days.length} 天统计数据将被导入的 ${data.records.length} 天数据替换。\n\n确定要继续吗？`);
+					if (confirmed) {
+						this.applyImport(data, 'replace');
+					}
+				}))
+			.addButton(button => button
+				.setButtonText('取较大值合并')
+				.setCta()
+				.onClick(() => this.applyImport(data, 'max')))
+			.addButton(button => button
+				.setButtonText('求和合并')
+				.onClick(() => this.applyImport(data, 'sum')))
+			.addButton(button => button
+				.setButtonText('取消')
+				.onClick(() => this.close()));
+	}
+
+	/**
+	 * 显示一类日期，日期较多时折叠
+	 */
+	private renderDateGroup(container: HTMLElement, title: string, desc: string, dates: string[]) {
+		if (dates.length === 0) return;
+
+		const details = container.createEl('details', { cls: 'word-count-import-group' });
+		details.createEl('summary', { text: `${title} ${dates.length} 天 · ${desc}` });
+		const shown = dates.slice(0, MAX_PREVIEW_DATES);
+		details.createEl('p', {
+			text: shown.join('、') + (dates.length > shown.length ? ` 等 ${dates.length} 天` : ''),
+			cls: 'word-count-import-dates'
+		});
+	}
+
+	/**
+	 * 执行导入
+	 */
+	private async applyImport(data: ImportData, mode: ImportMode) {
+		try {
+			await this.statsManager.importStats(data.records, mode);
+			this.close();
+			this.onImported(data, mode);
+		} catch (error) {
+			console.error('导入统计数据失败:', error);
+			new Notice('导入统计数据失败，请查看控制台获取详细信息');
+		}
+	}
+}
@@ -3,11 +3,13 @@
  */
 
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
-import { WordCountSettings, DEFAULT_SETTINGS, ColorRange } from '../types';
-import { validateDailyGoal, CONSTANTS } from '../utils';
+import { WordCountSettings, DEFAULT_SETTINGS, ColorRange, WritingProject, DeadlineGoal, ScriptName } from '../types';
+import { validateDailyGoal, validateDateString, CONSTANTS, SCRIPTS, generateId, getTodayString, addDays } from '../utils';
 
 export class WordCountSettingTab extends PluginSettingTab {
 	private plugin: any; // 避免循环依赖，使用any类型
+	/** 排除规则是否在本次打开设置页期间被修改 */
+	private exclusionsChanged = false;
 
 	constructor(app: App, plugin: any) {
 		super(app, plugin);
@@ -19,7 +21,8 @@ export class WordCountSettingTab extends PluginSettingTab {
 		containerEl.empty();
 		containerEl.createEl('h2', { text: '字数统计设置' });
 
-		// 每日目标设置已移除
+		// 每日目标设置
+		this.createDailyGoalSetting(containerEl);
 
 		// 状态栏显示设置
 		this.createStatusBarSetting(containerEl);
@@ -27,14 +30,140 @@ export class WordCountSettingTab extends PluginSettingTab {
 		// 统计选项设置
 		this.createTrackingSettings(containerEl);
 
+		// Markdown统计规则设置
+		this.createMarkdownSettings(containerEl);
+
+		// 连续写作设置
+		this.createStreakSettings(containerEl);
+
+		// 成就通知设置
+		this.createNotificationSettings(containerEl);
+
+		// 写作项目设置
+		this.createProjectSettings(containerEl);
+
+		// 截止目标设置
+		this.createDeadlineGoalSettings(containerEl);
+
+		// 排除规则设置
+		this.createExclusionSettings(containerEl);
+
 		// 性能优化设置
 		this.createPerformanceSettings(containerEl);
 
+		// 历史数据设置
+		this.createHistorySettings(containerEl);
+
 		// 热力图设置
 		this.createHeatmapSettings(containerEl);
 	}
 
-	// createDailyGoalSetting 方法已移除
+	hide(): void {
+		// 排除规则修改后，关闭设置页时提示是否重新计算历史数据
+		if (this.exclusionsChanged) {
+			this.exclusionsChanged = false;
+			this.plugin.applyExclusionsToHistory(true);
+		}
+	}
+
+	/**
+	 * 创建每日目标设置，包括按星期单独设置的目标
+	 */
+	private createDailyGoalSetting(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('写作目标')
+			.setDesc('设置每日、每周和每月的写作目标字数，每日目标可按星期单独设置')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('每日目标字数')
+			.setDesc(`${CONSTANTS.MIN_DAILY_GOAL}-${CONSTANTS.MAX_DAILY_GOAL} 字，0 表示不设目标（有写作即算完成）`)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(this.plugin.settings.dailyGoal.toString())
+					.onChange(async (value) => {
+						const goal = parseInt(value);
+						const validation = validateDailyGoal(goal);
+						if (!validation.isValid) {
+							this.showErrorTooltip(text.inputEl, validation.message || '无效的目标字数');
+							return;
+						}
+						this.plugin.settings.dailyGoal = goal;
+						await this.plugin.saveSettings();
+						this.plugin.updateStatusBar();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('每周目标字数')
+			.setDesc('0 表示不设目标')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(this.plugin.settings.weeklyGoal.toString())
+					.onChange(async (value) => {
+						this.plugin.settings.weeklyGoal = Math.max(parseInt(value) || 0, 0);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('每月目标字数')
+			.setDesc('0 表示不设目标')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(this.plugin.settings.monthlyGoal.toString())
+					.onChange(async (value) => {
+						this.plugin.settings.monthlyGoal = Math.max(parseInt(value) || 0, 0);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const weekdayNames = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+		new Setting(containerEl)
+			.setName('每周开始于')
+			.setDesc('用于本周统计和周目标')
+			.addDropdown(dropdown => {
+				dropdown.addOption('1', weekdayNames[1]);
+				dropdown.addOption('0', weekdayNames[0]);
+				dropdown.addOption('6', weekdayNames[6]);
+				dropdown.setValue(this.plugin.settings.weekStartDay.toString());
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.weekStartDay = parseInt(value);
+					await this.plugin.saveSettings();
+				});
+			});
+
+		// 按周一到周日的顺序显示
+		[1, 2, 3, 4, 5, 6, 0].forEach(weekday => {
+			new Setting(containerEl)
+				.setName(`${weekdayNames[weekday]}目标`)
+				.setDesc('留空则使用每日目标字数')
+				.addText(text => {
+					text.inputEl.type = 'number';
+					const weekdayGoal = this.plugin.settings.weekdayGoals[weekday];
+					text.setPlaceholder(this.plugin.settings.dailyGoal.toString())
+						.setValue(weekdayGoal === null || weekdayGoal === undefined ? '' : weekdayGoal.toString())
+						.onChange(async (value) => {
+							const goals = [...this.plugin.settings.weekdayGoals];
+							if (value.trim() === '') {
+								goals[weekday] = null;
+							} else {
+								const goal = parseInt(value);
+								const validation = validateDailyGoal(goal);
+								if (!validation.isValid) {
+									this.showErrorTooltip(text.inputEl, validation.message || '无效的目标字数');
+									return;
+								}
+								goals[weekday] = goal;
+							}
+							this.plugin.settings.weekdayGoals = goals;
+							await this.plugin.saveSettings();
+							this.plugin.updateStatusBar();
+						});
+				});
+		});
+	}
 
 	private createStatusBarSetting(containerEl: HTMLElement) {
 		new Setting(containerEl)
@@ -62,8 +191,6 @@ export class WordCountSettingTab extends PluginSettingTab {
 			.setHeading();
 
 		const trackingOptions = [
-			{ key: 'trackChinese', name: '统计中文字符' },
-			{ key: 'trackEnglish', name: '统计英文字符' },
 			{ key: 'trackPunctuation', name: '统计标点符号' },
 			{ key: 'trackNumbers', name: '统计数字' },
 			{ key: 'trackSpaces', name: '统计空格' },
@@ -82,6 +209,484 @@ export class WordCountSettingTab extends PluginSettingTab {
 						});
 				});
 		});
+
+		new Setting(containerEl)
+			.setName('计入总字数的文字')
+			.setDesc('按Unicode文字分类统计字母，关闭的文字不计入总字数');
+
+		SCRIPTS.forEach(script => {
+			new Setting(containerEl)
+				.setName(script.label)
+				.addToggle(toggle => {
+					toggle.setValue(this.isScriptCounted(script.key))
+						.onChange(async (value) => {
+							this.setScriptCounted(script.key, value);
+							await this.plugin.saveSettings();
+							this.plugin.updateWordCount();
+						});
+				});
+		});
+
+		new Setting(containerEl)
+			.setName('统计后台修改')
+			.setDesc('同步、模板或脚本等在编辑器之外对笔记的修改是否计入写作统计')
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.countBackgroundChanges)
+					.onChange(async (value) => {
+						this.plugin.settings.countBackgroundChanges = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('每日开始时间')
+			.setDesc('在此时间之前的写作计入前一天，连续写作天数也按此时间划分日期')
+			.addDropdown(dropdown => {
+				for (let hour = 0; hour < 24; hour++) {
+					dropdown.addOption(hour.toString(), `${String(hour).padStart(2, '0')}:00`);
+				}
+				dropdown.setValue(this.plugin.settings.dayStartHour.toString());
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.dayStartHour = parseInt(value) || 0;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('会话空闲超时')
+			.setDesc('超过该分钟数没有编辑时结束当前写作会话')
+			.addSlider(slider => {
+				slider.setLimits(1, 60, 1)
+					.setValue(this.plugin.settings.sessionIdleMinutes)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.sessionIdleMinutes = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('删除文件计为删除')
+			.setDesc('开启后，删除今日打开过的笔记时，其全部字数计为当日删除；关闭时删除笔记不影响写作统计')
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.countDeletedFiles)
+					.onChange(async (value) => {
+						this.plugin.settings.countDeletedFiles = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * 创建Markdown统计规则设置
+	 */
+	private createMarkdownSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Markdown统计规则')
+			.setDesc('只统计阅读视图中可见的正文；frontmatter、注释、嵌入、图片和网址始终不计入')
+			.setHeading();
+
+		const markdownRules = [
+			{ key: 'countLinkText', name: '统计链接文字', desc: '内部链接统计别名（无别名时统计链接目标），外部链接统计显示文字' },
+			{ key: 'countCalloutTitles', name: '统计标注标题', desc: '标注（callout）中自定义的标题文字' },
+			{ key: 'countFootnotes', name: '统计脚注', desc: '脚注定义和行内脚注的内容' },
+			{ key: 'countTables', name: '统计表格', desc: '表格各单元格的内容' },
+			{ key: 'countTags', name: '统计标签', desc: '正文中 #标签 的文字' },
+			{ key: 'countCode', name: '统计代码', desc: '代码块和行内代码的内容' },
+			{ key: 'countMath', name: '统计公式', desc: '公式块和行内公式的内容' }
+		];
+
+		markdownRules.forEach(rule => {
+			new Setting(containerEl)
+				.setName(rule.name)
+				.setDesc(rule.desc)
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings[rule.key])
+						.onChange(async (value) => {
+							this.plugin.settings[rule.key] = value;
+							await this.plugin.saveSettings();
+							this.plugin.updateWordCount();
+						});
+				});
+		});
+	}
+
+	/**
+	 * 文字是否计入总字数，汉字和拉丁字母沿用中文、英文统计选项
+	 */
+	private isScriptCounted(script: ScriptName): boolean {
+		if (script === 'han') return this.plugin.settings.trackChinese;
+		if (script === 'latin') return this.plugin.settings.trackEnglish;
+		return this.plugin.settings.countedScripts.includes(script);
+	}
+
+	private setScriptCounted(script: ScriptName, counted: boolean) {
+		const settings: WordCountSettings = this.plugin.settings;
+		if (script === 'han') {
+			settings.trackChinese = counted;
+		} else if (script === 'latin') {
+			settings.trackEnglish = counted;
+		} else {
+			const others = settings.countedScripts.filter(key => key !== script);
+			settings.countedScripts = counted ? [...others, script] : others;
+		}
+	}
+
+	private createStreakSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('连续写作')
+			.setDesc('连续写作天数根据历史数据计算，修改规则后会重新计算')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('最低字数')
+			.setDesc('当日净增字数达到此值才计入连续写作')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(this.plugin.settings.streakMinWords.toString())
+					.onChange(async (value) => {
+						this.plugin.settings.streakMinWords = Math.max(parseInt(value) || 1, 1);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const restDaySetting = new Setting(containerEl)
+			.setName('休息日')
+			.setDesc('休息日没有写作不会中断连续记录（也不计入天数）');
+		const weekdayNames = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+		[1, 2, 3, 4, 5, 6, 0].forEach(weekday => {
+			const label = restDaySetting.controlEl.createEl('label', { cls: 'streak-rest-day' });
+			const checkbox = label.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.plugin.settings.streakRestDays.includes(weekday);
+			label.appendText(weekdayNames[weekday]);
+			checkbox.onchange = async () => {
+				const restDays = this.plugin.settings.streakRestDays.filter((day: number) => day !== weekday);
+				if (checkbox.checked) restDays.push(weekday);
+				this.plugin.settings.streakRestDays = restDays.sort();
+				await this.plugin.saveSettings();
+			};
+		});
+
+		new Setting(containerEl)
+			.setName('每月冻结次数')
+			.setDesc('每月可自动使用的冻结次数，未写作的日期消耗一次冻结而不中断连续记录；冻结不足以延续连续记录时不消耗')
+			.addSlider(slider => {
+				slider.setLimits(0, 10, 1)
+					.setValue(this.plugin.settings.streakFreezesPerMonth)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.streakFreezesPerMonth = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * 创建成就通知设置
+	 */
+	private createNotificationSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('成就通知')
+			.setDesc('每项成就只通知一次，重启后不会重复提醒')
+			.setHeading();
+
+		const toggles: Array<{ key: string; name: string; desc: string }> = [
+			{ key: 'notifyDailyGoal', name: '完成每日目标', desc: '当日字数达到目标时通知' },
+			{ key: 'notifyMilestones', name: '累计里程碑', desc: `整个仓库或项目累计字数达到 ${CONSTANTS.MILESTONES.map(m => m / 10000 + '万').join('、')} 字时通知` },
+			{ key: 'notifyBestDay', name: '单日最高纪录', desc: '当日字数超过以往任何一天时通知' },
+			{ key: 'notifyLongestStreak', name: '最长连续纪录', desc: '连续写作天数超过以往最长记录时通知' },
+			{ key: 'useSystemNotifications', name: '系统通知', desc: '除Obsidian内通知外，同时发送操作系统通知（首次使用需授权）' }
+		];
+
+		toggles.forEach(({ key, name, desc }) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings[key])
+					.onChange(async (value) => {
+						this.plugin.settings[key] = value;
+						await this.plugin.saveSettings();
+					}));
+		});
+	}
+
+	/**
+	 * 创建写作项目设置
+	 */
+	private createProjectSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('写作项目')
+			.setDesc('按文件夹、标签或frontmatter属性将笔记归入项目，每个项目单独统计字数、连续天数和热力图，可为项目单独设置每日目标')
+			.setHeading();
+
+		const projectsContainer = containerEl.createDiv('projects-container');
+
+		new Setting(containerEl)
+			.addButton(button => {
+				button.setButtonText('+ 添加项目')
+					.onClick(async () => {
+						const project: WritingProject = {
+							id: generateId(),
+							name: '新项目',
+							matchType: 'folder',
+							matchValue: '',
+							propertyKey: ''
+						};
+						this.plugin.settings.projects.push(project);
+						await this.plugin.saveSettings();
+						this.renderProjects(projectsContainer);
+					});
+			});
+
+		this.renderProjects(projectsContainer);
+	}
+
+	/**
+	 * 渲染项目列表
+	 */
+	private renderProjects(container: HTMLElement) {
+		container.empty();
+
+		this.plugin.settings.projects.forEach((project: WritingProject, index: number) => {
+			const setting = new Setting(container)
+				.addText(text => {
+					text.setPlaceholder('项目名称')
+						.setValue(project.name)
+						.onChange(async (value) => {
+							project.name = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addDropdown(dropdown => {
+					dropdown.addOption('folder', '文件夹');
+					dropdown.addOption('tag', '标签');
+					dropdown.addOption('frontmatter', 'Frontmatter属性');
+					dropdown.setValue(project.matchType);
+					dropdown.onChange(async (value) => {
+						project.matchType = value as WritingProject['matchType'];
+						await this.plugin.saveSettings();
+						this.renderProjects(container);
+					});
+				});
+
+			if (project.matchType === 'frontmatter') {
+				setting.addText(text => {
+					text.setPlaceholder('属性名，如 project')
+						.setValue(project.propertyKey)
+						.onChange(async (value) => {
+							project.propertyKey = value;
+							await this.plugin.saveSettings();
+						});
+				});
+			}
+
+			const placeholders = {
+				folder: '文件夹路径，如 Novels/Book2',
+				tag: '标签，如 #novel',
+				frontmatter: '属性值，如 novel-2（留空表示任意值）'
+			};
+			setting
+				.addText(text => {
+					text.setPlaceholder(placeholders[project.matchType])
+						.setValue(project.matchValue)
+						.onChange(async (value) => {
+							project.matchValue = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text.setPlaceholder('每日目标（留空不设）')
+						.setValue(project.dailyGoal ? project.dailyGoal.toString() : '')
+						.onChange(async (value) => {
+							const goal = value.trim() === '' ? 0 : parseInt(value);
+							const validation = validateDailyGoal(goal);
+							if (!validation.isValid) {
+								this.showErrorTooltip(text.inputEl, validation.message || '无效的目标字数');
+								return;
+							}
+							project.dailyGoal = goal || undefined;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton(button => {
+					button.setIcon('trash')
+						.setTooltip('删除项目')
+						.onClick(async () => {
+							this.plugin.settings.projects.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.renderProjects(container);
+						});
+				});
+		});
+	}
+
+	/**
+	 * 创建截止目标设置
+	 */
+	private createDeadlineGoalSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('截止目标')
+			.setDesc('在截止日期前完成指定字数，如 11 月 30 日前写完 50000 字。可针对整个仓库或某个项目')
+			.setHeading();
+
+		const goalsContainer = containerEl.createDiv('deadline-goals-container');
+
+		new Setting(containerEl)
+			.addButton(button => {
+				button.setButtonText('+ 添加截止目标')
+					.onClick(async () => {
+						const today = getTodayString(this.plugin.settings.dayStartHour);
+						const goal: DeadlineGoal = {
+							id: generateId(),
+							name: '新目标',
+							projectId: '',
+							target: 50000,
+							startDate: today,
+							deadline: addDays(today, 29)
+						};
+						this.plugin.settings.deadlineGoals.push(goal);
+						await this.plugin.saveSettings();
+						this.renderDeadlineGoals(goalsContainer);
+					});
+			});
+
+		this.renderDeadlineGoals(goalsContainer);
+	}
+
+	/**
+	 * 渲染截止目标列表
+	 */
+	private renderDeadlineGoals(container: HTMLElement) {
+		container.empty();
+
+		this.plugin.settings.deadlineGoals.forEach((goal: DeadlineGoal, index: number) => {
+			const setting = new Setting(container)
+				.addText(text => {
+					text.setPlaceholder('目标名称')
+						.setValue(goal.name)
+						.onChange(async (value) => {
+							goal.name = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addDropdown(dropdown => {
+					dropdown.addOption('', '整个仓库');
+					this.plugin.settings.projects.forEach((project: WritingProject) => {
+						dropdown.addOption(project.id, project.name);
+					});
+					dropdown.setValue(goal.projectId);
+					dropdown.onChange(async (value) => {
+						goal.projectId = value;
+						await this.plugin.saveSettings();
+					});
+				})
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text.setPlaceholder('目标字数')
+						.setValue(goal.target.toString())
+						.onChange(async (value) => {
+							const target = parseInt(value);
+							if (isNaN(target) || target <= 0) {
+								this.showErrorTooltip(text.inputEl, '目标字数必须大于 0');
+								return;
+							}
+							goal.target = target;
+							await this.plugin.saveSettings();
+						});
+				});
+
+			const dateFields: Array<{ key: 'startDate' | 'deadline'; tooltip: string }> = [
+				{ key: 'startDate', tooltip: '开始日期' },
+				{ key: 'deadline', tooltip: '截止日期' }
+			];
+			dateFields.forEach(field => {
+				setting.addText(text => {
+					text.inputEl.type = 'date';
+					text.inputEl.title = field.tooltip;
+					text.setValue(goal[field.key])
+						.onChange(async (value) => {
+							const validation = validateDateString(value);
+							if (!validation.isValid) {
+								this.showErrorTooltip(text.inputEl, validation.message || '无效的日期');
+								return;
+							}
+							const updated = { ...goal, [field.key]: value };
+							if (updated.startDate > updated.deadline) {
+								this.showErrorTooltip(text.inputEl, '开始日期不能晚于截止日期');
+								return;
+							}
+							goal[field.key] = value;
+							await this.plugin.saveSettings();
+						});
+				});
+			});
+
+			setting.addExtraButton(button => {
+				button.setIcon('trash')
+					.setTooltip('删除目标')
+					.onClick(async () => {
+						this.plugin.settings.deadlineGoals.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.renderDeadlineGoals(container);
+					});
+			});
+		});
+	}
+
+	/**
+	 * 创建排除规则设置
+	 */
+	private createExclusionSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('排除规则')
+			.setDesc(`被排除的笔记不参与统计。也可以在笔记的frontmatter中添加 ${CONSTANTS.IGNORE_PROPERTY_KEY}: ${CONSTANTS.IGNORE_PROPERTY_VALUE} 单独排除`)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('排除的文件夹')
+			.setDesc('每行一个文件夹路径，如 Templates、Archive')
+			.addTextArea(text => {
+				text.setPlaceholder('Templates\nArchive')
+					.setValue(this.plugin.settings.excludedFolders.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.excludedFolders = this.parseLines(value);
+						this.exclusionsChanged = true;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('排除的路径通配符')
+			.setDesc('每行一个，** 匹配任意层级目录，* 匹配任意字符，如 Daily/**、**/*.clip.md')
+			.addTextArea(text => {
+				text.setPlaceholder('Daily/**\n**/*.clip.md')
+					.setValue(this.plugin.settings.excludedPatterns.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.excludedPatterns = this.parseLines(value);
+						this.exclusionsChanged = true;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('应用到历史数据')
+			.setDesc('修改规则后，可从历史统计中扣除已排除笔记的字数')
+			.addButton(button => {
+				button.setButtonText('重新计算')
+					.onClick(() => {
+						this.exclusionsChanged = false;
+						this.plugin.applyExclusionsToHistory();
+					});
+			});
+	}
+
+	/**
+	 * 将多行文本拆分为非空行
+	 */
+	private parseLines(value: string): string[] {
+		return value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
 	}
 
 	private createPerformanceSettings(containerEl: HTMLElement) {
@@ -99,6 +704,68 @@ export class WordCountSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					});
 			});
+
+		new Setting(containerEl)
+			.setName('保存间隔')
+			.setDesc('统计数据最多每隔多少秒写入一次磁盘；切换文件、窗口失去焦点和关闭插件时会立即保存')
+			.addSlider(slider => {
+				slider.setLimits(1, 60, 1)
+					.setValue(this.plugin.settings.saveIntervalSeconds)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.saveIntervalSeconds = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * 创建历史数据设置
+	 */
+	private createHistorySettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('历史数据')
+			.setDesc(`统计数据按年份保存在插件目录下，${CONSTANTS.COMPACT_AFTER_DAYS} 天前的数据只保留总数、会话和按小时分布`)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('本机设备名称')
+			.setDesc('每台设备的统计数据分别保存，同步后合并显示，并在统计视图中按设备列出。名称只保存在本机，留空使用默认名称')
+			.addText(text => text
+				.setPlaceholder(this.plugin.getDeviceName())
+				.setValue(this.app.loadLocalStorage(CONSTANTS.DEVICE_NAME_KEY) || '')
+				.onChange((value) => {
+					this.plugin.setDeviceName(value);
+				}));
+
+		new Setting(containerEl)
+			.setName('保留期限')
+			.setDesc('超过期限的统计数据会被永久删除。缩短期限时会提示将删除的天数')
+			.addDropdown(dropdown => {
+				CONSTANTS.RETENTION_OPTIONS.forEach(days => {
+					dropdown.addOption(days.toString(), days === 0 ? '永久保留' : `${days / 365} 年`);
+				});
+				dropdown.setValue(this.plugin.settings.retentionDays.toString())
+					.onChange(async (value) => {
+						const applied = await this.plugin.setRetentionDays(parseInt(value) || 0);
+						if (!applied) {
+							dropdown.setValue(this.plugin.settings.retentionDays.toString());
+						}
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('备份数量')
+			.setDesc('每天首次保存以及重置、导入、恢复前会自动备份统计数据，超出数量时删除最旧的备份')
+			.addSlider(slider => {
+				slider.setLimits(1, 30, 1)
+					.setValue(this.plugin.settings.backupCount)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.backupCount = value;
+						await this.plugin.saveSettings();
+					});
+			});
 	}
 
 	private createHeatmapSettings(containerEl: HTMLElement) {
@@ -413,12 +1080,13 @@ export class WordCountSettingTab extends PluginSettingTab {
 	}
 
 	private showErrorTooltip(input: HTMLInputElement, message: string) {
-		const existingTooltip = input.parentElement?.querySelector('.goal-input-error');
+		const parent = input.parentElement ?? input;
+		const existingTooltip = parent.querySelector('.goal-input-error-tooltip');
 		if (existingTooltip) {
 			existingTooltip.remove();
 		}
 		
-		const tooltip = input.createDiv('goal-input-error-tooltip');
+		const tooltip = parent.createDiv('goal-input-error-tooltip');
 		tooltip.setText(message);
 		tooltip.style.color = 'var(--text-error)';
 		tooltip.style.fontSize = '12px';
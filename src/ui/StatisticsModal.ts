@@ -4,35 +4,71 @@
 
 import { App, Modal, Notice } from 'obsidian';
 import { WordCountSettings } from '../types';
-import { DailyStats, StreakData } from '../types/stats';
-import { formatNumber, calculatePercentage } from '../utils';
+import { DailyStats, StreakData, CharCounts } from '../types/stats';
+import { CONSTANTS, formatNumber, formatScriptCounts, calculatePercentage, formatTime, formatDuration, getTodayString, getDayStartTimestamp, addDays, parseDateString, getWeekStartString, getMonthStartString } from '../utils';
 import { HeatmapComponent } from './HeatmapComponent';
+import { FileBreakdownComponent } from './FileBreakdownComponent';
+import { DistributionChartComponent } from './DistributionChartComponent';
+import { BurnUpChartComponent } from './BurnUpChartComponent';
+import { StatsManager, DeadlineTracker } from '../services';
+
+/** 分类字数中的数值字段 */
+type CountKey = Exclude<keyof CharCounts, 'scripts'>;
 
 export class StatisticsModal extends Modal {
+	private statsManager: StatsManager;
 	private dailyStats: Map<string, DailyStats>;
 	private streakData: StreakData;
 	private settings: WordCountSettings;
 	private heatmapComponent: HeatmapComponent | null = null;
+	private deadlineTracker = new DeadlineTracker();
+	/** 当前选中的项目ID，为空表示整个仓库 */
+	private projectId = '';
 
 	constructor(
 		app: App,
-		dailyStats: Map<string, DailyStats>,
-		streakData: StreakData,
+		statsManager: StatsManager,
 		settings: WordCountSettings
 	) {
 		super(app);
-		this.dailyStats = dailyStats;
-		this.streakData = streakData;
+		this.statsManager = statsManager;
 		this.settings = settings;
+		this.dailyStats = statsManager.getAllStats();
+		this.streakData = statsManager.getStreakData();
 	}
 
 	onOpen() {
 		const { contentEl } = this;
 		contentEl.addClass('word-count-modal');
+		this.render();
+	}
+
+	/**
+	 * 渲染模态框内容
+	 */
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
 		contentEl.createEl('h2', { text: '字数统计', cls: 'word-count-modal-title' });
 
+		this.displayProjectSwitcher(contentEl);
+		if (this.projectId) {
+			this.displayProjectSummary(contentEl);
+		}
+
 		this.displayTodayStats(contentEl);
+		this.displayPeriodStats(contentEl);
+		this.displayDeadlineGoals(contentEl);
+		this.displayTodayFiles(contentEl);
+		// 会话、设备与时间分布按整个仓库统计
+		if (!this.projectId) {
+			this.displaySessionStats(contentEl);
+			this.displayDeviceStats(contentEl);
+		}
 		this.displayStreakStats(contentEl);
+		if (!this.projectId) {
+			new DistributionChartComponent(contentEl, this.dailyStats, this.settings).render();
+		}
 		
 		if (this.settings.enableHeatmap) {
 			this.displayNewHeatmap(contentEl);
@@ -42,11 +78,45 @@ export class StatisticsModal extends Modal {
 		closeButton.onclick = () => this.close();
 	}
 
+	/**
+	 * 显示项目切换器
+	 */
+	private displayProjectSwitcher(container: HTMLElement) {
+		if (this.settings.projects.length === 0) return;
+
+		const switcher = container.createDiv({ cls: 'word-count-project-switcher' });
+		switcher.createSpan({ text: '项目: ' });
+		const select = switcher.createEl('select', { cls: 'dropdown' });
+		select.createEl('option', { text: '整个仓库', value: '' });
+		this.settings.projects.forEach(project => {
+			select.createEl('option', { text: project.name, value: project.id });
+		});
+		select.value = this.projectId;
+		select.onchange = () => {
+			this.projectId = select.value;
+			this.dailyStats = this.statsManager.getProjectStats(this.projectId);
+			this.streakData = this.statsManager.getProjectStreakData(this.projectId);
+			this.render();
+		};
+	}
+
+	/**
+	 * 显示项目汇总
+	 */
+	private displayProjectSummary(container: HTMLElement) {
+		const allStats = Array.from(this.dailyStats.values());
+		const summaryDiv = container.createDiv({ cls: 'word-count-stats' });
+		summaryDiv.createEl('h3', { text: '项目汇总' });
+		summaryDiv.createEl('p', { text: `累计净增: ${formatNumber(allStats.reduce((sum, stats) => sum + stats.total, 0))}` });
+		summaryDiv.createEl('p', { text: `累计新增: +${formatNumber(allStats.reduce((sum, stats) => sum + stats.added.total, 0))}` });
+		summaryDiv.createEl('p', { text: `写作天数: ${allStats.filter(stats => stats.total > 0).length} 天` });
+	}
+
 	/**
 	 * 显示今日统计
 	 */
 	private displayTodayStats(container: HTMLElement) {
-		const today = new Date().toISOString().split('T')[0];
+		const today = getTodayString(this.settings.dayStartHour);
 		const todayStats = this.dailyStats.get(today);
 		const statsDiv = container.createDiv({ cls: 'word-count-stats' });
 
@@ -54,40 +124,250 @@ export class StatisticsModal extends Modal {
 
 		if (todayStats) {
 			const total = todayStats.total || 0;
-			const goal = 0; // 不再使用目标
+			const goal = todayStats.goal;
 			const completed = todayStats.completed || false;
 
 			statsDiv.createEl('p', { 
-				text: `总字数: ${formatNumber(total)} (${completed ? '✅ 已完成' : '❌ 未完成'})` 
+				text: `净增字数: ${formatNumber(total)} (${completed ? '✅ 已完成' : '❌ 未完成'})` 
+			});
+			if (goal > 0) {
+				this.createProgressBar(statsDiv, '今日目标', total, goal);
+			}
+			statsDiv.createEl('p', { 
+				text: `新增: +${formatNumber(todayStats.added.total)}  删除: −${formatNumber(todayStats.deleted.total)}`,
+				cls: 'word-count-gross'
 			});
 
-			// 显示详细统计
-			const details: string[] = [];
-			if (this.settings.trackChinese) details.push(`中文字符: ${formatNumber(todayStats.chinese)}`);
-			if (this.settings.trackEnglish) details.push(`英文字符: ${formatNumber(todayStats.english)}`);
-			if (this.settings.trackPunctuation) details.push(`标点符号: ${formatNumber(todayStats.punctuation)}`);
-			if (this.settings.trackNumbers) details.push(`数字: ${formatNumber(todayStats.numbers)}`);
-			if (this.settings.trackSpaces) details.push(`空格: ${formatNumber(todayStats.spaces)}`);
+			// 显示详细统计（净增，新增/删除）
+			const categories: Array<{ key: CountKey; label: string; enabled: boolean }> = [
+				{ key: 'chinese', label: '中文字符', enabled: this.settings.trackChinese },
+				{ key: 'english', label: '英文字符', enabled: this.settings.trackEnglish },
+				{ key: 'other', label: '其他文字', enabled: this.settings.countedScripts.length > 0 },
+				{ key: 'punctuation', label: '标点符号', enabled: this.settings.trackPunctuation },
+				{ key: 'numbers', label: '数字', enabled: this.settings.trackNumbers },
+				{ key: 'spaces', label: '空格', enabled: this.settings.trackSpaces }
+			];
 
-			details.forEach(detail => {
-				statsDiv.createEl('p', { text: detail });
+			// 项目视图只记录总量，不区分字符类型
+			categories.filter(category => category.enabled && !this.projectId).forEach(category => {
+				statsDiv.createEl('p', { text: this.formatCategory(category.label, todayStats, category.key) });
 			});
 
 			// 显示词数统计
-			if (this.settings.showWordCount && todayStats.words > 0) {
+			if (this.settings.showWordCount && (todayStats.added.words > 0 || todayStats.deleted.words > 0)) {
 				statsDiv.createEl('p', { 
-					text: `词数: ${formatNumber(todayStats.words)}`, 
+					text: this.formatCategory('词数', todayStats, 'words'), 
 					cls: 'word-count-word' 
 				});
 			}
 
 			// 添加详细统计按钮
-			this.createDetailsSection(statsDiv, todayStats);
+			if (!this.projectId) {
+				this.createDetailsSection(statsDiv, todayStats);
+			}
 		} else {
 			statsDiv.createEl('p', { text: '今日暂无写作记录' });
 		}
 	}
 
+	/**
+	 * 显示本周与本月统计及目标进度
+	 */
+	private displayPeriodStats(container: HTMLElement) {
+		const today = getTodayString(this.settings.dayStartHour);
+		const weekStart = getWeekStartString(today, this.settings.weekStartDay);
+		const monthStart = getMonthStartString(today);
+		const sumTotal = (start: string) => Array.from(this.dailyStats.values())
+			.filter(stats => stats.date >= start && stats.date <= today)
+			.reduce((sum, stats) => sum + stats.total, 0);
+
+		const periodDiv = container.createDiv({ cls: 'word-count-stats' });
+		periodDiv.createEl('h3', { text: '本周与本月' });
+
+		// 本周每日字数
+		const weekdayNames = ['日', '一', '二', '三', '四', '五', '六'];
+		const weekRow = periodDiv.createDiv({ cls: 'word-count-week-row' });
+		for (let i = 0; i < 7; i++) {
+			const date = addDays(weekStart, i);
+			const dayStats = this.dailyStats.get(date);
+			const dayCell = weekRow.createDiv({ cls: 'word-count-week-day' });
+			if (date === today) dayCell.addClass('is-today');
+			if (dayStats?.completed) dayCell.addClass('is-completed');
+			dayCell.createDiv({ cls: 'word-count-week-day-name', text: weekdayNames[parseDateString(date).getDay()] });
+			dayCell.createDiv({
+				cls: 'word-count-week-day-count',
+				text: date > today ? '–' : formatNumber(dayStats?.total || 0)
+			});
+		}
+
+		const weekTotal = sumTotal(weekStart);
+		const monthTotal = sumTotal(monthStart);
+
+		if (this.settings.weeklyGoal > 0) {
+			this.createProgressBar(periodDiv, '本周目标', weekTotal, this.settings.weeklyGoal);
+		} else {
+			periodDiv.createEl('p', { text: `本周字数: ${formatNumber(weekTotal)}` });
+		}
+
+		if (this.settings.monthlyGoal > 0) {
+			this.createProgressBar(periodDiv, '本月目标', monthTotal, this.settings.monthlyGoal);
+		} else {
+			periodDiv.createEl('p', { text: `本月字数: ${formatNumber(monthTotal)}` });
+		}
+	}
+
+	/**
+	 * 显示截止日期目标：剩余字数、所需速度、超前/落后情况及燃起图
+	 * 整个仓库视图显示全部目标，项目视图只显示该项目的目标
+	 */
+	private displayDeadlineGoals(container: HTMLElement) {
+		const goals = this.settings.deadlineGoals.filter(goal => !this.projectId || goal.projectId === this.projectId);
+		if (goals.length === 0) return;
+
+		const today = getTodayString(this.settings.dayStartHour);
+		const deadlineDiv = container.createDiv({ cls: 'word-count-stats word-count-deadlines' });
+		deadlineDiv.createEl('h3', { text: '截止目标' });
+
+		goals.forEach(goal => {
+			const progress = this.deadlineTracker.evaluate(goal, this.statsManager.getProjectStats(goal.projectId), today);
+			const goalDiv = deadlineDiv.createDiv({ cls: 'word-count-deadline' });
+			goalDiv.createEl('h4', { text: `${goal.name}：${formatNumber(goal.target)} 字，截止 ${goal.deadline}` });
+
+			this.createProgressBar(goalDiv, '已完成', progress.written, goal.target);
+			goalDiv.createEl('p', { text: `剩余字数: ${formatNumber(progress.remaining)}` });
+			if (progress.remaining > 0) {
+				goalDiv.createEl('p', {
+					text: progress.daysLeft > 0
+						? `剩余 ${progress.daysLeft} 天，每天需写 ${formatNumber(progress.requiredPace)} 字`
+						: '已过截止日期'
+				});
+			}
+			const difference = progress.difference;
+			goalDiv.createEl('p', {
+				text: difference >= 0
+					? `✅ 超前理想进度 ${formatNumber(difference)} 字`
+					: `⚠️ 落后理想进度 ${formatNumber(-difference)} 字`
+			});
+
+			new BurnUpChartComponent(goalDiv, goal, progress).render();
+		});
+	}
+
+	/**
+	 * 显示今日写作的文件明细
+	 */
+	private displayTodayFiles(container: HTMLElement) {
+		const today = getTodayString(this.settings.dayStartHour);
+		const todayStats = this.dailyStats.get(today);
+		if (!todayStats) return;
+
+		const filesDiv = container.createDiv({ cls: 'word-count-stats' });
+		new FileBreakdownComponent(this.app, filesDiv, todayStats.files, () => this.close()).render();
+	}
+
+	/**
+	 * 显示各设备的写作量，只有一台设备时不显示
+	 */
+	private displayDeviceStats(container: HTMLElement) {
+		const devices = this.statsManager.getDeviceStats();
+		if (devices.length < 2) return;
+
+		const today = getTodayString(this.settings.dayStartHour);
+		const weekStartString = getWeekStartString(today, this.settings.weekStartDay);
+		const deviceDiv = container.createDiv({ cls: 'word-count-stats' });
+		deviceDiv.createEl('h3', { text: '设备' });
+
+		const list = deviceDiv.createEl('ul', { cls: 'word-count-file-list' });
+		devices.forEach((device, index) => {
+			const todayTotal = device.days.find(stats => stats.date === today)?.total || 0;
+			const weekTotal = device.days
+				.filter(stats => stats.date >= weekStartString && stats.date <= today)
+				.reduce((sum, stats) => sum + stats.total, 0);
+			const total = device.days.reduce((sum, stats) => sum + stats.total, 0);
+			const lastDate = device.days
+				.filter(stats => stats.total !== 0)
+				.reduce((latest, stats) => stats.date > latest ? stats.date : latest, '');
+
+			const item = list.createEl('li', { cls: 'word-count-file-item' });
+			item.createSpan({ text: index === 0 ? `${device.name}（本设备）` : device.name, attr: { title: device.id } });
+			item.createSpan({
+				text: `今日 ${formatNumber(todayTotal)} · 本周 ${formatNumber(weekTotal)} · 累计 ${formatNumber(total)}${lastDate ? ` · 最近 ${lastDate}` : ''}`,
+				cls: 'word-count-file-count'
+			});
+		});
+	}
+
+	/**
+	 * 显示写作会话：今日时间线与汇总
+	 */
+	private displaySessionStats(container: HTMLElement) {
+		const sessionDiv = container.createDiv({ cls: 'word-count-stats word-count-sessions' });
+		sessionDiv.createEl('h3', { text: '写作会话' });
+
+		const today = getTodayString(this.settings.dayStartHour);
+		const todaySessions = this.dailyStats.get(today)?.sessions || [];
+
+		if (todaySessions.length > 0) {
+			// 今日时间线：按 0-24 点比例定位会话
+			const timeline = sessionDiv.createDiv({ cls: 'session-timeline' });
+			const dayStart = getDayStartTimestamp(today, this.settings.dayStartHour);
+			const dayMs = 24 * 60 * 60 * 1000;
+			todaySessions.forEach(session => {
+				const block = timeline.createDiv({ cls: 'session-block' });
+				const left = ((session.start - dayStart) / dayMs) * 100;
+				const width = ((session.end - session.start) / dayMs) * 100;
+				block.style.left = `${Math.max(left, 0)}%`;
+				block.style.width = `${Math.max(width, 0.5)}%`;
+				block.setAttribute('title', `${formatTime(session.start)}–${formatTime(session.end)}`);
+			});
+
+			todaySessions.forEach(session => {
+				sessionDiv.createEl('p', {
+					text: `${formatTime(session.start)}–${formatTime(session.end)} · ${formatDuration(session.activeMinutes)} · ${formatNumber(session.words)} 字 · ${formatNumber(session.wpm)} 字/分钟`
+				});
+			});
+		} else {
+			sessionDiv.createEl('p', { text: '今日暂无写作会话' });
+		}
+
+		// 汇总：平均会话时长、本周写作时间、最佳速度
+		const allSessions = Array.from(this.dailyStats.values()).flatMap(stats => stats.sessions);
+		const weekStartString = getWeekStartString(today, this.settings.weekStartDay);
+		const weekMinutes = Array.from(this.dailyStats.values())
+			.filter(stats => stats.date >= weekStartString)
+			.reduce((sum, stats) => sum + stats.sessions.reduce((total, session) => total + session.activeMinutes, 0), 0);
+		const averageMinutes = allSessions.length > 0
+			? allSessions.reduce((sum, session) => sum + session.activeMinutes, 0) / allSessions.length
+			: 0;
+		const bestWpm = allSessions.reduce((best, session) => Math.max(best, session.wpm), 0);
+
+		sessionDiv.createEl('p', { text: `平均会话时长: ${formatDuration(averageMinutes)}` });
+		sessionDiv.createEl('p', { text: `本周写作时间: ${formatDuration(weekMinutes)}` });
+		sessionDiv.createEl('p', { text: `最佳速度: ${formatNumber(bestWpm)} 字/分钟` });
+	}
+
+	/**
+	 * 创建目标进度条
+	 */
+	private createProgressBar(container: HTMLElement, label: string, value: number, goal: number) {
+		const progress = container.createDiv({ cls: 'word-count-progress' });
+		const percentage = calculatePercentage(Math.max(value, 0), goal, 0);
+		progress.createDiv({
+			cls: 'word-count-progress-label',
+			text: `${label}: ${formatNumber(value)} / ${formatNumber(goal)} (${percentage})`
+		});
+		const track = progress.createDiv({ cls: 'word-count-progress-track' });
+		const fill = track.createDiv({ cls: 'word-count-progress-fill' });
+		fill.style.width = `${Math.min(Math.max(value, 0) / goal, 1) * 100}%`;
+	}
+
+	/**
+	 * 格式化某一类字数：净增（+新增 / −删除）
+	 */
+	private formatCategory(label: string, stats: DailyStats, key: CountKey): string {
+		return `${label}: ${formatNumber(stats[key])} (+${formatNumber(stats.added[key])} / −${formatNumber(stats.deleted[key])})`;
+	}
+
 	/**
 	 * 创建详细统计部分
 	 */
@@ -106,7 +386,7 @@ export class StatisticsModal extends Modal {
 				detailsButton.textContent = '收起详情';
 
 				// 计算总字符数（不含空格）
-				const totalChars = stats.chinese + stats.english + stats.punctuation + stats.numbers;
+				const totalChars = stats.chinese + stats.english + stats.other + stats.punctuation + stats.numbers;
 				
 				detailsContainer.createEl('p', { 
 					text: `总字符数: ${formatNumber(totalChars)} (不含空格)` 
@@ -120,13 +400,20 @@ export class StatisticsModal extends Modal {
 				if (totalChars > 0) {
 					const chinesePercent = calculatePercentage(stats.chinese, totalChars);
 					const englishPercent = calculatePercentage(stats.english, totalChars);
+					const otherPercent = calculatePercentage(stats.other, totalChars);
 					const punctuationPercent = calculatePercentage(stats.punctuation, totalChars);
 					const numbersPercent = calculatePercentage(stats.numbers, totalChars);
 
 					detailsContainer.createEl('p', { 
-						text: `字符类型占比: 中文${chinesePercent} 英文${englishPercent} 标点${punctuationPercent} 数字${numbersPercent}` 
+						text: `字符类型占比: 中文${chinesePercent} 英文${englishPercent} 其他文字${otherPercent} 标点${punctuationPercent} 数字${numbersPercent}` 
 					});
 				}
+
+				// 按文字分类的净增字符数
+				const scriptText = formatScriptCounts(stats.scripts);
+				if (scriptText) {
+					detailsContainer.createEl('p', { text: `按文字统计: ${scriptText}` });
+				}
 			} else {
 				detailsContainer.style.display = 'none';
 				detailsButton.textContent = '详细统计';
@@ -142,6 +429,22 @@ export class StatisticsModal extends Modal {
 		streakDiv.createEl('h3', { text: '连续写作' });
 		streakDiv.createEl('p', { text: `当前连续: ${this.streakData.current} 天` });
 		streakDiv.createEl('p', { text: `最长连续: ${this.streakData.longest} 天` });
+		if (this.settings.streakFreezesPerMonth > 0) {
+			streakDiv.createEl('p', { text: `本月剩余冻结: ${this.streakData.freezesLeft} 次` });
+		}
+
+		// 历次连续写作记录
+		const history = this.streakData.history.slice(0, CONSTANTS.MAX_STREAK_HISTORY_DISPLAY);
+		if (history.length > 0) {
+			streakDiv.createEl('h4', { text: '连续写作记录' });
+			const list = streakDiv.createEl('ul', { cls: 'word-count-streak-history' });
+			history.forEach((record, index) => {
+				const isCurrent = index === 0 && this.streakData.current > 0;
+				list.createEl('li', {
+					text: `${record.start} – ${record.end}: ${record.length} 天${isCurrent ? '（进行中）' : ''}`
+				});
+			});
+		}
 	}
 
 	/**
@@ -154,7 +457,10 @@ export class StatisticsModal extends Modal {
 			this.app,
 			this.settings,
 			this.dailyStats,
-			heatmapContainer
+			heatmapContainer,
+			() => this.close(),
+			(projectId) => this.statsManager.getProjectStats(projectId),
+			this.projectId
 		);
 		this.heatmapComponent.render();
 	}
@@ -5,4 +5,9 @@
 export * from './StatisticsModal';
 export * from './SettingTab';
 export * from './HeatmapComponent';
-
+export * from './FileBreakdownComponent';
+export * from './DistributionChartComponent';
+export * from './BurnUpChartComponent';
+export * from './BackupRestoreModal';
+export * from './ImportModal';
+export * from './ExportModal';
@@ -2,11 +2,17 @@
  * 插件常量定义
  */
 
+import { ScriptName } from '../types/stats';
+
 export const CONSTANTS = {
 	/** 最大字符变化记录数 */
 	MAX_CHAR_CHANGES: 100,
 	/** 防抖延迟时间（毫秒） */
 	DEBOUNCE_DELAY: 500,
+	/** 会话内两次编辑之间计入活跃时间的最长间隔（毫秒） */
+	SESSION_ACTIVE_INTERVAL: 2 * 60 * 1000, // 2分钟
+	/** 计算每分钟字数时的最短活跃时间（分钟） */
+	SESSION_MIN_MINUTES: 1,
 	/** 缓存生存时间（毫秒） */
 	CACHE_TTL: 5 * 60 * 1000, // 5分钟
 	/** 最大每日目标字数 */
@@ -15,30 +21,84 @@ export const CONSTANTS = {
 	MIN_DAILY_GOAL: 0,
 	/** 默认每日目标字数 */
 	DEFAULT_DAILY_GOAL: 1000,
+	/** 统计页面显示的连续写作记录条数 */
+	MAX_STREAK_HISTORY_DISPLAY: 10,
+	/** 累计字数里程碑 */
+	MILESTONES: [10000, 50000, 100000, 250000, 500000, 1000000],
+	/** 统计数据目录（位于插件目录），每台设备一个子目录，按年份分文件保存 */
+	STATS_FOLDER: 'stats',
+	/** 旧版本的单文件统计数据文件名（结构版本 1） */
+	STATS_FILE: 'stats.json',
+	/** 统计数据结构版本 */
+	STATS_SCHEMA_VERSION: 3,
+	/** 旧版本数据迁移后所在的目录名，作为所有设备共用的设备ID */
+	LEGACY_DEVICE_ID: 'legacy',
+	/** 旧版本数据在设备列表中显示的名称 */
+	LEGACY_DEVICE_NAME: '旧版本数据',
+	/** 本机设备ID的本地存储键（不随仓库同步） */
+	DEVICE_ID_KEY: 'word-count-device-id',
+	/** 本机设备名称的本地存储键（不随仓库同步） */
+	DEVICE_NAME_KEY: 'word-count-device-name',
+	/** 统计数据备份目录（位于插件目录），每台设备一个子目录 */
+	BACKUP_FOLDER: 'backups',
+	/** 隔离的无效记录文件名（位于本设备的统计数据目录） */
+	QUARANTINE_FILE: 'quarantine.json',
+	/** 超过此天数的历史数据会被压缩（丢弃逐次字符变化记录） */
+	COMPACT_AFTER_DAYS: 7,
+	/** 可选的历史数据保留天数，0 表示永久保留 */
+	RETENTION_OPTIONS: [0, 365, 730, 1095, 1825],
+	/** 已通知记录文件名（位于插件目录） */
+	ANNOUNCEMENTS_FILE: 'announcements.json',
+	/** 排除统计的frontmatter属性名 */
+	IGNORE_PROPERTY_KEY: 'writer-stats',
+	/** 排除统计的frontmatter属性值 */
+	IGNORE_PROPERTY_VALUE: 'ignore',
 	/** 热力图默认颜色 */
 	DEFAULT_HEATMAP_COLORS: ['#ebedf0', '#9be9a8', '#40c463', '#30a14e', '#216e39'],
 } as const;
 
 /**
- * 正则表达式常量
+ * 正则表达式常量，均按单个码位匹配
  */
 export const REGEX_PATTERNS = {
-	/** 中文字符正则 */
-	CHINESE: /[\u4e00-\u9fff\u3400-\u4dbf\uf900-\ufaff\u3300-\u33ff\ufe30-\ufe4f\uf900-\ufaff\U00020000-\U0002a6df\U0002a700-\U0002b73f\U0002b740-\U0002b81f\U0002b820-\U0002ceaf]/,
-	/** 英文字符正则 */
-	ENGLISH: /[a-zA-Z]/,
-	/** 数字正则 */
-	NUMBERS: /[0-9]/,
-	/** 全角数字正则 */
-	FULL_WIDTH_NUMBERS: /[\uff10-\uff19]/,
-	/** 标点符号正则 */
-	PUNCTUATION: /[^\w\s\u4e00-\u9fff\u3400-\u4dbf\uf900-\ufaff\u3300-\u33ff\ufe30-\ufe4f\uf900-\ufaff\U00020000-\U0002a6df\U0002a700-\U0002b73f\U0002b740-\U0002b81f\U0002b820-\U0002ceaf]/,
-	/** 全角标点符号正则 */
-	FULL_WIDTH_PUNCTUATION: /[\uff01-\uff0f\uff1a-\uff20\uff3b-\uff40\uff5b-\uff60\uff61-\uff65\uffe0-\uffe6]/,
-	/** 罗马数字正则 */
-	ROMAN_NUMERALS: /^[IVXLCDM]+$/i,
+	/** 空白字符正则 */
+	SPACES: /\s/u,
+	/** 数字正则（十进制数字，含全角数字及其他文字的数字） */
+	NUMBERS: /\p{Nd}/u,
+	/** 组合附加符号、变体选择符等附着于前一字符的码位，不单独计数 */
+	COMBINING: /\p{Script=Inherited}/u,
+	/** 标点符号正则（含全角标点、符号和表情） */
+	PUNCTUATION: /[\p{P}\p{S}]/u,
+	/** 罗马数字正则（仅大写，避免排除 did、mix 等普通单词） */
+	ROMAN_NUMERALS: /^[IVXLCDM]+$/,
 } as const;
 
+/**
+ * 文字分类定义，按顺序匹配，最后的“其他文字”匹配其余所有字母
+ */
+export const SCRIPTS: ReadonlyArray<{
+	/** 文字键 */
+	key: ScriptName;
+	/** 显示名称 */
+	label: string;
+	/** 匹配该文字的正则 */
+	pattern: RegExp;
+	/** 是否以空格分词，用于统计词数 */
+	spaced: boolean;
+}> = [
+	{ key: 'han', label: '汉字', pattern: /\p{Script=Han}/u, spaced: false },
+	{ key: 'kana', label: '日文假名', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}\u30fc]/u, spaced: false },
+	{ key: 'hangul', label: '韩文', pattern: /\p{Script=Hangul}/u, spaced: true },
+	{ key: 'latin', label: '拉丁字母', pattern: /\p{Script=Latin}/u, spaced: true },
+	{ key: 'cyrillic', label: '西里尔字母', pattern: /\p{Script=Cyrillic}/u, spaced: true },
+	{ key: 'greek', label: '希腊字母', pattern: /\p{Script=Greek}/u, spaced: true },
+	{ key: 'arabic', label: '阿拉伯字母', pattern: /\p{Script=Arabic}/u, spaced: true },
+	{ key: 'hebrew', label: '希伯来字母', pattern: /\p{Script=Hebrew}/u, spaced: true },
+	{ key: 'thai', label: '泰文', pattern: /\p{Script=Thai}/u, spaced: false },
+	{ key: 'devanagari', label: '天城文', pattern: /\p{Script=Devanagari}/u, spaced: true },
+	{ key: 'other', label: '其他文字', pattern: /[\p{L}\p{M}]/u, spaced: true }
+];
+
 /**
  * 错误消息常量
  */
@@ -2,7 +2,8 @@
  * 工具函数集合
  */
 
-import { CONSTANTS } from './constants';
+import { CONSTANTS, SCRIPTS } from './constants';
+import { CharCounts, ScriptCounts } from '../types/stats';
 
 /**
  * 防抖函数
@@ -41,12 +42,111 @@ export function throttle<T extends (...args: any[]) => any>(
 	};
 }
 
+/**
+ * 将日期格式化为本地时区的日期字符串 (YYYY-MM-DD)
+ * @param date 日期
+ * @returns 日期字符串
+ */
+export function formatDateString(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 将日期字符串解析为本地时区当天零点
+ * @param dateString 日期字符串 (YYYY-MM-DD)
+ * @returns 日期
+ */
+export function parseDateString(dateString: string): Date {
+	const [year, month, day] = dateString.split('-').map(Number);
+	return new Date(year, month - 1, day);
+}
+
+/**
+ * 宽松解析其他来源的日期，支持 2024-01-31、2024/1/31、2024.1.31 以及 "Wed Jan 31 2024" 等格式
+ * @param value 日期文本
+ * @returns 日期字符串 (YYYY-MM-DD)，无法识别时返回 null
+ */
+export function parseLooseDate(value: string): string | null {
+	const text = value.trim();
+	const match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+	if (match) {
+		const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+		return date.getMonth() === Number(match[2]) - 1 ? formatDateString(date) : null;
+	}
+
+	// 只接受包含年份的文本，避免把普通数字当作时间戳
+	if (!/\d{4}/.test(text) || /^\d+$/.test(text)) return null;
+	const timestamp = Date.parse(text);
+	return isNaN(timestamp) ? null : formatDateString(new Date(timestamp));
+}
+
+/**
+ * 获取时间戳所属的写作日，早于每日开始时间的时刻归入前一天
+ * @param timestamp 时间戳
+ * @param dayStartHour 每日开始的小时（0-23）
+ * @returns 日期字符串 (YYYY-MM-DD)
+ */
+export function getDateString(timestamp: number, dayStartHour = 0): string {
+	const date = new Date(timestamp);
+	if (date.getHours() < dayStartHour) {
+		date.setDate(date.getDate() - 1);
+	}
+	return formatDateString(date);
+}
+
 /**
  * 获取今天的日期字符串 (YYYY-MM-DD)
+ * @param dayStartHour 每日开始的小时（0-23）
  * @returns 日期字符串
  */
-export function getTodayString(): string {
-	return new Date().toISOString().split('T')[0];
+export function getTodayString(dayStartHour = 0): string {
+	return getDateString(Date.now(), dayStartHour);
+}
+
+/**
+ * 获取写作日开始的时间戳
+ * @param dateString 日期字符串 (YYYY-MM-DD)
+ * @param dayStartHour 每日开始的小时（0-23）
+ * @returns 时间戳
+ */
+export function getDayStartTimestamp(dateString: string, dayStartHour = 0): number {
+	const date = parseDateString(dateString);
+	date.setHours(dayStartHour);
+	return date.getTime();
+}
+
+/**
+ * 日期字符串加减天数
+ * @param dateString 日期字符串 (YYYY-MM-DD)
+ * @param days 天数，可为负数
+ * @returns 日期字符串
+ */
+export function addDays(dateString: string, days: number): string {
+	const date = parseDateString(dateString);
+	date.setDate(date.getDate() + days);
+	return formatDateString(date);
+}
+
+/**
+ * 获取日期所在周的第一天
+ * @param dateString 日期字符串 (YYYY-MM-DD)
+ * @param weekStartDay 每周开始的星期（0 为周日，1 为周一）
+ * @returns 周开始日期字符串
+ */
+export function getWeekStartString(dateString: string, weekStartDay = 1): string {
+	const weekday = parseDateString(dateString).getDay();
+	return addDays(dateString, -((weekday - weekStartDay + 7) % 7));
+}
+
+/**
+ * 获取日期所在月的第一天
+ * @param dateString 日期字符串 (YYYY-MM-DD)
+ * @returns 月开始日期字符串
+ */
+export function getMonthStartString(dateString: string): string {
+	return `${dateString.slice(0, 7)}-01`;
 }
 
 /**
@@ -56,9 +156,10 @@ export function getTodayString(): string {
  * @returns 天数差
  */
 export function getDaysDifference(date1: string, date2: string): number {
-	const d1 = new Date(date1);
-	const d2 = new Date(date2);
-	return Math.floor((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24));
+	const d1 = parseDateString(date1);
+	const d2 = parseDateString(date2);
+	// 四舍五入以抵消夏令时造成的小时偏差
+	return Math.round((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24));
 }
 
 /**
@@ -92,6 +193,41 @@ export function formatNumber(num: number): string {
 	return num.toLocaleString();
 }
 
+/**
+ * 格式化按文字分类的字符数，只列出不为0的文字
+ * @param scripts 按文字分类的字符数
+ * @returns 如“汉字 1,200 · 日文假名 35”，全部为0时返回空字符串
+ */
+export function formatScriptCounts(scripts: ScriptCounts): string {
+	return SCRIPTS
+		.filter(script => scripts[script.key] !== 0)
+		.map(script => `${script.label} ${formatNumber(scripts[script.key])}`)
+		.join(' · ');
+}
+
+/**
+ * 格式化时间戳为 HH:MM
+ * @param timestamp 时间戳
+ * @returns 时间字符串
+ */
+export function formatTime(timestamp: number): string {
+	const date = new Date(timestamp);
+	return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * 格式化分钟数为可读时长
+ * @param minutes 分钟数
+ * @returns 时长字符串，如 "1小时5分钟"
+ */
+export function formatDuration(minutes: number): string {
+	const total = Math.round(minutes);
+	const hours = Math.floor(total / 60);
+	const rest = total % 60;
+	if (hours === 0) return `${rest}分钟`;
+	return rest === 0 ? `${hours}小时` : `${hours}小时${rest}分钟`;
+}
+
 /**
  * 计算百分比
  * @param value 当前值
@@ -104,6 +240,34 @@ export function calculatePercentage(value: number, total: number, decimals: numb
 	return `${((value / total) * 100).toFixed(decimals)}%`;
 }
 
+/**
+ * 判断是否完成目标，未设目标时有字数即算完成
+ * @param total 净增字数
+ * @param goal 目标字数
+ * @returns 是否完成
+ */
+export function isGoalCompleted(total: number, goal: number): boolean {
+	return goal > 0 ? total >= goal : total > 0;
+}
+
+/**
+ * 创建空的按文字分类字符数
+ * @returns 全部为0的按文字分类字符数
+ */
+export function createScriptCounts(): ScriptCounts {
+	const counts = {} as ScriptCounts;
+	SCRIPTS.forEach(script => counts[script.key] = 0);
+	return counts;
+}
+
+/**
+ * 创建空的分类字数
+ * @returns 全部为0的分类字数
+ */
+export function createEmptyCounts(): CharCounts {
+	return { chinese: 0, english: 0, other: 0, scripts: createScriptCounts(), punctuation: 0, numbers: 0, spaces: 0, words: 0, total: 0 };
+}
+
 /**
  * 生成唯一ID
  * @returns 唯一ID字符串
@@ -142,6 +306,38 @@ export function isEmpty(str: string): boolean {
 	return !str || str.trim().length === 0;
 }
 
+/**
+ * 将通配符模式转换为正则表达式
+ * 支持 ** 匹配任意层级路径，* 匹配路径段内任意字符，? 匹配单个字符
+ * @param pattern 通配符模式
+ * @returns 匹配完整路径的正则表达式
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let regex = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*') {
+			if (pattern[i + 1] === '*') {
+				// "**/" 可匹配零个或多个目录
+				if (pattern[i + 2] === '/') {
+					regex += '(?:.*/)?';
+					i += 2;
+				} else {
+					regex += '.*';
+					i++;
+				}
+			} else {
+				regex += '[^/]*';
+			}
+		} else if (char === '?') {
+			regex += '[^/]';
+		} else {
+			regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${regex}$`);
+}
+
 /**
  * 安全地解析JSON字符串
  * @param jsonString JSON字符串
@@ -3,6 +3,15 @@
  */
 
 import { CONSTANTS } from './constants';
+import { createEmptyCounts, createScriptCounts, isGoalCompleted } from './helpers';
+import { CharCounts, DailyStats, ScriptCounts, FileDayStats, ProjectDayStats, WritingSession, CharChange } from '../types/stats';
+
+/** 文件和项目当日写作量中的数值字段 */
+const DAY_TOTAL_FIELDS: Array<keyof FileDayStats> = ['total', 'added', 'deleted'];
+/** 写作会话中的数值字段 */
+const SESSION_FIELDS: Array<keyof WritingSession> = ['start', 'end', 'activeMinutes', 'words', 'wpm'];
+/** 字符变化记录中的数值字段（other 为可选字段） */
+const CHANGE_FIELDS = ['chinese', 'english', 'punctuation', 'numbers', 'spaces', 'words', 'total'] as const;
 
 /**
  * 验证每日目标字数
@@ -97,8 +106,8 @@ export function validateFileName(fileName: string): { isValid: boolean; message?
  * @param stats 统计数据
  * @returns 验证结果
  */
-export function validateStats(stats: any): { isValid: boolean; message?: string } {
-	if (!stats || typeof stats !== 'object') {
+export function validateStats(stats: unknown): { isValid: boolean; message?: string } {
+	if (!isObject(stats)) {
 		return { isValid: false, message: '统计数据格式不正确' };
 	}
 	
@@ -108,20 +117,258 @@ export function validateStats(stats: any): { isValid: boolean; message?: string
 			return { isValid: false, message: `缺少必要字段: ${field}` };
 		}
 	}
+
+	if (typeof stats.date !== 'string' || !validateDateString(stats.date).isValid) {
+		return { isValid: false, message: `无效的日期: ${stats.date}` };
+	}
 	
-	// 验证数值字段
-	const numericFields = ['chinese', 'english', 'punctuation', 'numbers', 'spaces', 'words', 'total', 'goal'];
+	// 验证数值字段，净增字数在删除多于新增时为负数
+	const numericFields = ['chinese', 'english', 'punctuation', 'numbers', 'spaces', 'words', 'total'];
 	for (const field of numericFields) {
-		if (typeof stats[field] !== 'number' || isNaN(stats[field]) || stats[field] < 0) {
-			return { isValid: false, message: `字段 ${field} 必须是有效的非负数` };
+		if (!isFiniteNumber(stats[field])) {
+			return { isValid: false, message: `字段 ${field} 必须是有效的数字` };
 		}
 	}
+
+	if (!isFiniteNumber(stats.goal) || stats.goal < 0) {
+		return { isValid: false, message: '字段 goal 必须是有效的非负数' };
+	}
 	
 	// 验证布尔字段
 	if (typeof stats.completed !== 'boolean') {
 		return { isValid: false, message: 'completed 字段必须是布尔值' };
 	}
-	
-	return { isValid: true };
+
+	// 验证可选字段（旧版本数据没有这些字段）
+	if ('other' in stats && !isFiniteNumber(stats.other)) {
+		return { isValid: false, message: '字段 other 必须是有效的数字' };
+	}
+	for (const field of ['scripts', 'added', 'deleted', 'files', 'projects']) {
+		if (field in stats && !isObject(stats[field])) {
+			return { isValid: false, message: `字段 ${field} 必须是对象` };
+		}
+	}
+	for (const field of ['sessions', 'charChanges', 'hourly']) {
+		if (field in stats && !Array.isArray(stats[field])) {
+			return { isValid: false, message: `字段 ${field} 必须是数组` };
+		}
+	}
+
+	// 验证嵌套数据，结构错误的记录在合并或显示时会出错
+	const message = validateNestedStats(stats);
+	return message ? { isValid: false, message } : { isValid: true };
+}
+
+/**
+ * 验证统计数据中的分类字数、文件、项目、会话和字符变化记录
+ * @param stats 已通过顶层字段校验的统计数据
+ * @returns 错误信息，有效时为 null
+ */
+function validateNestedStats(stats: Record<string, unknown>): string | null {
+	for (const field of ['added', 'deleted'] as const) {
+		const counts = stats[field];
+		if (isObject(counts) && !hasNumericFields(counts, Object.keys(counts).filter(key => key !== 'scripts'))) {
+			return `字段 ${field} 中的字数必须是有效的数字`;
+		}
+	}
+	for (const counts of [stats.scripts, isObject(stats.added) ? stats.added.scripts : undefined, isObject(stats.deleted) ? stats.deleted.scripts : undefined]) {
+		if (counts !== undefined && !(isObject(counts) && hasNumericFields(counts, Object.keys(counts)))) {
+			return '按文字分类的字符数必须是有效的数字';
+		}
+	}
+	if (isObject(stats.files)) {
+		for (const [path, entry] of Object.entries(stats.files)) {
+			if (!isObject(entry) || !hasNumericFields(entry, DAY_TOTAL_FIELDS)) {
+				return `文件 ${path} 的当日写作量无效`;
+			}
+		}
+	}
+	if (isObject(stats.projects)) {
+		for (const [id, entry] of Object.entries(stats.projects)) {
+			if (!isObject(entry) || !hasNumericFields(entry, DAY_TOTAL_FIELDS) ||
+				!Array.isArray(entry.files) || !entry.files.every(path => typeof path === 'string')) {
+				return `项目 ${id} 的当日写作量无效`;
+			}
+		}
+	}
+	if (Array.isArray(stats.sessions) && !stats.sessions.every(session => isObject(session) && hasNumericFields(session, SESSION_FIELDS))) {
+		return '写作会话数据无效';
+	}
+	if (Array.isArray(stats.charChanges) && !stats.charChanges.every(isValidChange)) {
+		return '字符变化记录无效';
+	}
+	if (Array.isArray(stats.hourly) && !stats.hourly.every(isFiniteNumber)) {
+		return '字段 hourly 中的字数必须是有效的数字';
+	}
+	return null;
+}
+
+/**
+ * 验证单条字符变化记录
+ */
+function isValidChange(change: unknown): boolean {
+	return isObject(change) &&
+		isFiniteNumber(change.timestamp) &&
+		(change.action === 'add' || change.action === 'delete') &&
+		typeof change.fileName === 'string' &&
+		hasNumericFields(change, CHANGE_FIELDS) &&
+		(change.other === undefined || isFiniteNumber(change.other));
+}
+
+/**
+ * 判断是否为普通对象（不含数组和 null）
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 判断是否为有限数字
+ */
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * 判断对象的指定字段是否都是有限数字
+ */
+function hasNumericFields(value: Record<string, unknown>, fields: readonly string[]): boolean {
+	return fields.every(field => isFiniteNumber(value[field]));
+}
+
+/**
+ * 转换为数字，无效时为0
+ */
+function toNumber(value: unknown): number {
+	return Number(value) || 0;
+}
+
+/**
+ * 规范化存储中的分类字数，缺失或无效字段置0
+ * @param counts 存储中的分类字数
+ * @returns 分类字数
+ */
+export function normalizeCounts(counts: unknown): CharCounts {
+	const result = createEmptyCounts();
+	if (!isObject(counts)) return result;
+	for (const key of Object.keys(result) as Array<keyof CharCounts>) {
+		if (key !== 'scripts') result[key] = toNumber(counts[key]);
+	}
+	result.scripts = normalizeScripts(counts);
+	return result;
+}
+
+/**
+ * 规范化按文字分类的字符数
+ * 旧版本数据没有此字段，汉字和拉丁字母取 chinese 和 english，其余文字无法区分，计入“其他文字”
+ * @param counts 含 scripts 字段的统计数据
+ * @returns 按文字分类的字符数
+ */
+export function normalizeScripts(counts: Record<string, unknown>): ScriptCounts {
+	const result = createScriptCounts();
+	const scripts = counts.scripts;
+	if (isObject(scripts)) {
+		for (const key of Object.keys(result) as Array<keyof ScriptCounts>) {
+			result[key] = toNumber(scripts[key]);
+		}
+	} else {
+		result.han = toNumber(counts.chinese);
+		result.latin = toNumber(counts.english);
+		result.other = toNumber(counts.other);
+	}
+	return result;
 }
 
+/**
+ * 补全已通过校验的记录中旧版本缺少的字段，嵌套数据只保留已知字段
+ * @param item 已通过 validateStats 校验的记录
+ * @returns 统计数据
+ */
+export function normalizeStats(item: unknown): DailyStats {
+	const stats = isObject(item) ? item : {};
+	const total = toNumber(stats.total);
+	const goal = toNumber(stats.goal);
+	return {
+		date: String(stats.date),
+		chinese: toNumber(stats.chinese),
+		english: toNumber(stats.english),
+		other: toNumber(stats.other),
+		scripts: normalizeScripts(stats),
+		punctuation: toNumber(stats.punctuation),
+		numbers: toNumber(stats.numbers),
+		spaces: toNumber(stats.spaces),
+		words: toNumber(stats.words),
+		total,
+		goal,
+		completed: isGoalCompleted(total, goal),
+		// 旧版本数据没有新增/删除拆分，以净字数作为新增
+		added: isObject(stats.added) ? normalizeCounts(stats.added) : normalizeCounts(stats),
+		deleted: normalizeCounts(stats.deleted),
+		files: mapValues(stats.files, normalizeDayTotals),
+		sessions: Array.isArray(stats.sessions) ? stats.sessions.map(normalizeSession) : [],
+		hourly: Array.isArray(stats.hourly) && stats.hourly.length === 24
+			? stats.hourly.map(toNumber)
+			: new Array(24).fill(0),
+		projects: mapValues(stats.projects, (entry): ProjectDayStats => ({
+			...normalizeDayTotals(entry),
+			files: isObject(entry) && Array.isArray(entry.files) ? entry.files.map(String) : []
+		})),
+		charChanges: Array.isArray(stats.charChanges) ? stats.charChanges.map(normalizeChange) : []
+	};
+}
+
+/**
+ * 规范化文件或项目的当日写作量
+ */
+function normalizeDayTotals(entry: unknown): FileDayStats {
+	const totals = isObject(entry) ? entry : {};
+	return { total: toNumber(totals.total), added: toNumber(totals.added), deleted: toNumber(totals.deleted) };
+}
+
+/**
+ * 规范化写作会话
+ */
+function normalizeSession(entry: unknown): WritingSession {
+	const session = isObject(entry) ? entry : {};
+	return {
+		start: toNumber(session.start),
+		end: toNumber(session.end),
+		activeMinutes: toNumber(session.activeMinutes),
+		words: toNumber(session.words),
+		wpm: toNumber(session.wpm)
+	};
+}
+
+/**
+ * 规范化字符变化记录，只保留已知字段
+ */
+function normalizeChange(entry: unknown): CharChange {
+	const change = isObject(entry) ? entry : {};
+	const result: CharChange = {
+		timestamp: toNumber(change.timestamp),
+		action: change.action === 'delete' ? 'delete' : 'add',
+		fileName: String(change.fileName),
+		chinese: toNumber(change.chinese),
+		english: toNumber(change.english),
+		punctuation: toNumber(change.punctuation),
+		numbers: toNumber(change.numbers),
+		spaces: toNumber(change.spaces),
+		words: toNumber(change.words),
+		total: toNumber(change.total)
+	};
+	if (change.source === 'editor' || change.source === 'background') result.source = change.source;
+	if (change.other !== undefined) result.other = toNumber(change.other);
+	return result;
+}
+
+/**
+ * 对对象的每个值做转换，不是对象时返回空对象
+ */
+function mapValues<R>(record: unknown, transform: (value: unknown) => R): Record<string, R> {
+	const result: Record<string, R> = {};
+	if (!isObject(record)) return result;
+	for (const [key, value] of Object.entries(record)) {
+		result[key] = transform(value);
+	}
+	return result;
+}